@@ -0,0 +1,135 @@
+"use client"
+
+import { Bot } from "lucide-react"
+import type {
+  Building,
+  DispatchLogEntry,
+  DispatchPolicies,
+  DispatchPolicy,
+  MissionSeverity,
+  MissionType,
+} from "@/lib/game-types"
+import { DEFAULT_DISPATCH_POLICY, MISSION_CONFIGS, SEVERITY_LEVELS, phaseRequirements } from "@/lib/game-types"
+import { formatGameTime } from "@/lib/time-utils"
+import "./auto-dispatch-panel.css"
+
+interface AutoDispatchPanelProps {
+  policies: DispatchPolicies
+  log: DispatchLogEntry[]
+  buildings: Building[]
+  onChange: (missionType: MissionType, policy: DispatchPolicy) => void
+}
+
+const MAX_UNITS_OPTIONS = [1, 2, 3, 4, 5]
+const LOG_SHOWN = 8
+
+export function AutoDispatchPanel({ policies, log, buildings, onChange }: AutoDispatchPanelProps) {
+  const types = Object.keys(MISSION_CONFIGS) as MissionType[]
+  const enabledCount = types.filter((t) => policies[t]?.enabled).length
+
+  return (
+    <details className="auto-dispatch">
+      <summary className="auto-dispatch-summary">
+        <Bot className="h-4 w-4" />
+        Auto-dispatch
+        <span className="auto-dispatch-count">
+          {enabledCount === 0 ? "off" : `${enabledCount} of ${types.length} types`}
+        </span>
+      </summary>
+
+      <div className="auto-dispatch-body">
+        {types.map((type) => {
+          const policy = policies[type] ?? DEFAULT_DISPATCH_POLICY
+          const update = (patch: Partial<DispatchPolicy>) => onChange(type, { ...policy, ...patch })
+          const stations = buildings.filter((b) => phaseRequirements(MISSION_CONFIGS[type].phases).includes(b.type))
+
+          const toggleStation = (buildingId: string) => {
+            const current = policy.stationIds ?? []
+            const next = current.includes(buildingId)
+              ? current.filter((id) => id !== buildingId)
+              : [...current, buildingId]
+            // No station ticked means any station
+            update({ stationIds: next.length > 0 ? next : null })
+          }
+
+          return (
+            <section key={type} className="auto-dispatch-rule">
+              <label className="auto-dispatch-rule-header">
+                <input
+                  type="checkbox"
+                  checked={policy.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                />
+                <span style={{ color: MISSION_CONFIGS[type].color }}>{type.replace("-", " ")}</span>
+              </label>
+
+              {policy.enabled && (
+                <div className="auto-dispatch-rule-body">
+                  <label className="auto-dispatch-field">
+                    <span>Hold calls more severe than</span>
+                    <select
+                      value={policy.maxSeverity ?? ""}
+                      onChange={(e) => update({ maxSeverity: (e.target.value || null) as MissionSeverity | null })}
+                    >
+                      <option value="">no limit</option>
+                      {SEVERITY_LEVELS.slice(0, -1).map((level) => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="auto-dispatch-field">
+                    <span>Units per call</span>
+                    <select
+                      value={policy.maxUnits}
+                      onChange={(e) => update({ maxUnits: Number(e.target.value) })}
+                    >
+                      {MAX_UNITS_OPTIONS.map((n) => (
+                        <option key={n} value={n}>{n}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {stations.length > 0 && (
+                    <div className="auto-dispatch-stations">
+                      <span className="auto-dispatch-stations-label">
+                        From {policy.stationIds ? "selected stations" : "any station"}
+                      </span>
+                      {stations.map((b) => (
+                        <label key={b.id} className="auto-dispatch-station">
+                          <input
+                            type="checkbox"
+                            checked={policy.stationIds?.includes(b.id) ?? false}
+                            onChange={() => toggleStation(b.id)}
+                          />
+                          {b.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </section>
+          )
+        })}
+
+        <div className="auto-dispatch-log">
+          <h4 className="mission-list-title">Dispatch log</h4>
+          {log.length === 0 ? (
+            <p className="auto-dispatch-log-empty">No automated decisions yet</p>
+          ) : (
+            log
+              .slice(-LOG_SHOWN)
+              .reverse()
+              .map((entry, i) => (
+                <div key={`${entry.missionId}-${entry.gameTime}-${i}`} className={`auto-dispatch-log-entry auto-dispatch-log-${entry.outcome}`}>
+                  <span className="auto-dispatch-log-time">{formatGameTime(entry.gameTime)}</span>
+                  <span className="auto-dispatch-log-text">
+                    <strong>{entry.missionTitle}</strong> {entry.message}
+                  </span>
+                </div>
+              ))
+          )}
+        </div>
+      </div>
+    </details>
+  )
+}
@@ -2,10 +2,10 @@
 
 import {
   Flame, Shield, Heart, Siren, Stethoscope, Construction, Building2,
-  ArrowUpCircle, Trash2, Truck, Users, X, Star, Gauge, UserPlus, Plus,
+  ArrowUpCircle, Trash2, Truck, Users, X, Star, Gauge, UserPlus, Plus, BedDouble, TrafficCone, Check,
 } from "lucide-react"
-import type { Building } from "@/lib/game-types"
-import { BUILDING_CONFIGS } from "@/lib/game-types"
+import type { Building, BuildingUpgradeId } from "@/lib/game-types"
+import { BUILDING_CONFIGS, BUILDING_UPGRADES, bedCapacity } from "@/lib/game-types"
 import "./building-manager.css"
 
 const ICON_MAP: Record<string, typeof Flame> = {
@@ -16,6 +16,7 @@ interface BuildingManagerProps {
   building: Building | null
   money: number
   onUpgrade: (buildingId: string) => void
+  onBuyUpgrade: (buildingId: string, upgrade: BuildingUpgradeId) => void
   onHireStaff: (buildingId: string) => void
   onPurchaseVehicle: (buildingId: string) => void
   onSell: (buildingId: string) => void
@@ -23,7 +24,7 @@ interface BuildingManagerProps {
 }
 
 export function BuildingManager({
-  building, money, onUpgrade, onHireStaff, onPurchaseVehicle, onSell, onClose,
+  building, money, onUpgrade, onBuyUpgrade, onHireStaff, onPurchaseVehicle, onSell, onClose,
 }: BuildingManagerProps) {
   if (!building) {
     return null
@@ -35,10 +36,14 @@ export function BuildingManager({
   const canHire = building.staff < building.maxStaff && money >= config.staffCost
   const canBuyVehicle = money >= config.vehicleCost
   const upgradeCost = config.upgradeCost * building.level
+  const beds = bedCapacity(building)
+  const upgrades = (Object.keys(BUILDING_UPGRADES) as BuildingUpgradeId[]).filter(
+    (id) => BUILDING_UPGRADES[id].buildingType === building.type,
+  )
 
   const idleVehicles = building.vehicles.filter((v) => v.status === "idle").length
   const preparingVehicles = building.vehicles.filter((v) => v.status === "preparing").length
-  const dispatchedVehicles = building.vehicles.filter((v) => v.status === "dispatched").length
+  const dispatchedVehicles = building.vehicles.filter((v) => v.status === "dispatched" || v.status === "transporting").length
   const workingVehicles = building.vehicles.filter((v) => v.status === "working").length
   const returningVehicles = building.vehicles.filter((v) => v.status === "returning").length
 
@@ -95,6 +100,13 @@ export function BuildingManager({
             <div className="building-manager-stat-value text-primary">{Math.round(building.efficiency * 100)}%</div>
             <div className="building-manager-stat-label">Efficiency</div>
           </div>
+          {beds > 0 && (
+            <div className="building-manager-stat">
+              <BedDouble className="building-manager-stat-icon" style={{ color: config.color }} />
+              <div className="building-manager-stat-value">{building.admissions?.length ?? 0}/{beds}</div>
+              <div className="building-manager-stat-label">{building.type === "morgue" ? "Storage" : "Beds"}</div>
+            </div>
+          )}
         </div>
 
         {/* Vehicle Fleet */}
@@ -133,7 +145,7 @@ export function BuildingManager({
                   className={`building-manager-vehicle-status-badge ${
                     v.status === "idle" ? "idle"
                     : v.status === "preparing" ? "preparing"
-                    : v.status === "dispatched" ? "dispatched"
+                    : v.status === "dispatched" || v.status === "transporting" ? "dispatched"
                     : v.status === "working" ? "working"
                     : "returning"
                   }`}
@@ -145,6 +157,42 @@ export function BuildingManager({
           </div>
         </div>
 
+        {/* One-off upgrades */}
+        {upgrades.length > 0 && (
+          <div className="building-manager-section">
+            <h3 className="building-manager-section-title">Upgrades</h3>
+            <div className="building-manager-upgrade-list">
+              {upgrades.map((id) => {
+                const upgrade = BUILDING_UPGRADES[id]
+                const owned = building.upgrades.includes(id)
+                return (
+                  <div key={id} className="building-manager-upgrade-item">
+                    <TrafficCone className="building-manager-upgrade-icon" style={{ color: config.color }} />
+                    <div className="building-manager-upgrade-info">
+                      <span className="building-manager-vehicle-name">{upgrade.name}</span>
+                      <span className="building-manager-upgrade-description">{upgrade.description}</span>
+                    </div>
+                    {owned ? (
+                      <span className="building-manager-upgrade-owned">
+                        <Check className="h-4 w-4" />
+                        Installed
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onBuyUpgrade(building.id, id)}
+                        disabled={money < upgrade.cost}
+                        className="building-manager-button upgrade"
+                      >
+                        <span>${upgrade.cost.toLocaleString()}</span>
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Actions */}
         <div className="building-manager-section">
           <div className="building-manager-actions">
@@ -9,16 +9,19 @@ import type {
   LatLng,
   BuildingType,
   CityConfig,
+  Disaster,
+  RoadClosure,
+  WeatherKind,
 } from "@/lib/game-types"
-import { BUILDING_CONFIGS, MISSION_CONFIGS } from "@/lib/game-types"
+import { BUILDING_CONFIGS, MISSION_CONFIGS, nightDarkness } from "@/lib/game-types"
 import { GiTowTruck } from "react-icons/gi"
 import { PiFireTruckFill } from "react-icons/pi"
 import { GiAmbulance } from "react-icons/gi"
 import { FaShieldAlt } from "react-icons/fa"
 import { FaTruck } from "react-icons/fa"
 import { renderToString } from "react-dom/server"
-import { getCars, updateViewBounds, startTraffic, stopTraffic } from "@/lib/traffic-manager"
-import { useGameState } from "@/lib/game-store"
+import { getCars, updateViewBounds, startTraffic, stopTraffic } from "@/lib/game-store"
+import { hourOfDay } from "@/lib/time-utils"
 import "leaflet/dist/leaflet.css"
 import "./city-map.css"
 
@@ -36,6 +39,18 @@ interface CityMapProps {
   onSelectBuilding: (building: Building) => void
   onSelectMission: (mission: Mission) => void
   onOpenBuilding: (building: Building) => void
+  /** Game time of the state shown; the map dims with the hour in the city */
+  gameTime: number
+  /** Weather over the city now, drawn as an overlay */
+  weather: WeatherKind
+  /** Disaster areas and closed roads, drawn as hazards */
+  disasters: Disaster[]
+  roadClosures: RoadClosure[]
+  isPaused: boolean
+  /** Seeds the NPC traffic */
+  seed: string
+  /** Simulate and draw NPC traffic (off in the replay viewer) */
+  showTraffic?: boolean
 }
 
 // --- SVG icon paths for each building type ---
@@ -181,12 +196,21 @@ export function CityMap({
   onSelectBuilding,
   onSelectMission,
   onOpenBuilding,
+  gameTime,
+  weather,
+  disasters,
+  roadClosures,
+  isPaused,
+  seed,
+  showTraffic = true,
 }: CityMapProps) {
   if (!city) {
     return null
   }
 
-  const { isPaused } = useGameState()
+  // Tiles dim with the hour in the city; rounded so the style only changes
+  // every few game minutes at dusk and dawn
+  const darkness = Math.round(nightDarkness(hourOfDay(gameTime, city.timeZone)) * 20) / 20
   const pausedRef = useRef(isPaused)
   pausedRef.current = isPaused
   const containerRef = useRef<HTMLDivElement>(null)
@@ -197,7 +221,8 @@ export function CityMap({
     missions: LType.LayerGroup | null
     vehicles: LType.LayerGroup | null
     routes: LType.LayerGroup | null
-  }>({ buildings: null, missions: null, vehicles: null, routes: null })
+    hazards: LType.LayerGroup | null
+  }>({ buildings: null, missions: null, vehicles: null, routes: null, hazards: null })
 
   const ghostMarkerRef = useRef<LType.Marker | null>(null)
   const [ready, setReady] = useState(false)
@@ -236,6 +261,10 @@ map.createPane("routesPane")
 map.getPane("routesPane")!.style.zIndex = "300"
 map.getPane("routesPane")!.style.pointerEvents = "none"
 
+map.createPane("hazardsPane")
+map.getPane("hazardsPane")!.style.zIndex = "320"
+map.getPane("hazardsPane")!.style.pointerEvents = "none"
+
 map.createPane("trafficPane")
 map.getPane("trafficPane")!.style.zIndex = "400"
 map.getPane("trafficPane")!.style.pointerEvents = "none"
@@ -264,6 +293,7 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
         missions: L.layerGroup().addTo(map),
         vehicles: L.layerGroup().addTo(map),
         routes: L.layerGroup().addTo(map),
+        hazards: L.layerGroup().addTo(map),
       }
 
       // Håndter klikk for plassering
@@ -290,10 +320,10 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
         }
       })
 
-      // Track zoom level for zoom-based rendering
-      map.on("zoomend", () => {
-        setZoomLevel(map.getZoom())
-        // Update traffic viewport bounds
+      // Traffic fills the viewport; without traffic (replays) the simulation
+      // worker is left alone
+      const reportViewBounds = () => {
+        if (!showTraffic) return
         const b = map.getBounds()
         updateViewBounds({
           north: b.getNorth(),
@@ -301,28 +331,20 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
           east: b.getEast(),
           west: b.getWest(),
         })
+      }
+
+      // Track zoom level for zoom-based rendering
+      map.on("zoomend", () => {
+        setZoomLevel(map.getZoom())
+        reportViewBounds()
       })
 
       // Update traffic bounds on map move
-      map.on("moveend", () => {
-        const b = map.getBounds()
-        updateViewBounds({
-          north: b.getNorth(),
-          south: b.getSouth(),
-          east: b.getEast(),
-          west: b.getWest(),
-        })
-      })
+      map.on("moveend", reportViewBounds)
 
       // Initialize traffic system with current viewport
-      const initialBounds = map.getBounds()
-      updateViewBounds({
-        north: initialBounds.getNorth(),
-        south: initialBounds.getSouth(),
-        east: initialBounds.getEast(),
-        west: initialBounds.getWest(),
-      })
-      startTraffic()
+      reportViewBounds()
+      if (showTraffic) startTraffic(seed)
 
       mapRef.current = map
       setReady(true)
@@ -331,7 +353,7 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
     init()
     return () => {
       isMounted = false
-      stopTraffic()
+      if (showTraffic) stopTraffic()
       if (mapRef.current) {
         mapRef.current.remove()
         mapRef.current = null
@@ -410,7 +432,8 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
       const appearanceKey = `${v.status}:${bType}`
 
       // Update or create route line - only when route structure changes
-      if ((v.status === "dispatched" || v.status === "returning") && v.routeCoords.length > 1) {
+      const onRoad = v.status === "dispatched" || v.status === "transporting" || v.status === "returning"
+      if (onRoad && v.routeCoords.length > 1) {
         const remainingRoute = v.routeCoords.slice(Math.floor(v.routeIndex))
         if (remainingRoute.length > 1) {
           const latlngs = remainingRoute.map(c => [c.lat, c.lng] as [number, number])
@@ -511,7 +534,7 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
   
   useEffect(() => {
     const map = mapRef.current
-    if (!map || !ready) return
+    if (!map || !ready || !showTraffic) return
 
     const pane = map.getPane("trafficPane")! // <-- pane du allerede lager
     const canvas = document.createElement("canvas")
@@ -571,8 +594,10 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
         const LANE_OFFSET = 0.000018 // ~1–2 meter-ish. Juster litt.
         const rightLat = -Math.sin(car.heading)
         const rightLng = Math.cos(car.heading)
-        const drawLat = car.lat + rightLat * LANE_OFFSET
-        const drawLng = car.lng + rightLng * LANE_OFFSET
+        // Cars making way for a unit ease further over, onto the shoulder
+        const offset = LANE_OFFSET * (1 + car.yieldOffset * 1.5)
+        const drawLat = car.lat + rightLat * offset
+        const drawLng = car.lng + rightLng * offset
 
         // ✅ riktig når canvas ligger i trafficPane:
         const point = mapInstance.latLngToLayerPoint([drawLat, drawLng])
@@ -598,7 +623,7 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
       if (canvas.parentNode === pane) pane.removeChild(canvas)
       trafficCanvasRef.current = null
     }
-  }, [ready])
+  }, [ready, showTraffic])
 
   // Rydd opp ghost marker når vi er ferdige med å bygge
   useEffect(() => {
@@ -754,9 +779,55 @@ map.getPane("buildingsPane")!.style.zIndex = "800"
     })
   }, [missions, ready, isZoomedIn])
 
+  // Disaster areas and closed roads
+  const activeDisasters = disasters.filter((d) => !d.outcome)
+  const hazardsKey = [...activeDisasters.map((d) => d.id), ...roadClosures.map((c) => c.id)].join("|")
+  useEffect(() => {
+    const layer = layersRef.current.hazards
+    const L = leafletRef.current
+    if (!layer || !L || !ready) return
+    layer.clearLayers()
+    for (const d of activeDisasters) {
+      L.circle([d.position.lat, d.position.lng], {
+        pane: "hazardsPane",
+        radius: d.radius,
+        color: "#ef4444",
+        weight: 1.5,
+        dashArray: "6 6",
+        fillOpacity: 0.06,
+        interactive: false,
+      }).addTo(layer)
+    }
+    // Closed roads: the closed stretch, with a barricade across it
+    for (const c of roadClosures) {
+      L.circle([c.position.lat, c.position.lng], {
+        pane: "hazardsPane",
+        radius: c.radius,
+        color: "#f59e0b",
+        weight: 1,
+        fillOpacity: 0.15,
+        interactive: false,
+      }).addTo(layer)
+      L.marker([c.position.lat, c.position.lng], {
+        pane: "hazardsPane",
+        interactive: false,
+        icon: L.divIcon({
+          className: "",
+          iconSize: [26, 14],
+          iconAnchor: [13, 7],
+          html: `<div class="road-barricade"><div class="road-barricade-bar"></div></div>`,
+        }),
+      }).addTo(layer)
+    }
+  }, [hazardsKey, ready])
+
   return (
-    <div className={`city-map-container ${placingBuilding ? 'is-placing' : ''} ${isPaused ? 'is-paused' : ''}`}>
+    <div
+      className={`city-map-container ${placingBuilding ? 'is-placing' : ''} ${isPaused ? 'is-paused' : ''}`}
+      style={{ "--night-darkness": darkness } as React.CSSProperties}
+    >
       <div ref={containerRef} className="city-map-wrapper" />
+      {weather !== "clear" && <div className={`weather-overlay ${weather}`} />}
 
       {!ready && (
         <div className="city-map-overlay">
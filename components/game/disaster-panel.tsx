@@ -0,0 +1,102 @@
+"use client"
+
+import { CloudLightning, Users, Waves, X, ZapOff } from "lucide-react"
+import type { Building, Disaster, Mission } from "@/lib/game-types"
+import { DISASTER_CONFIGS } from "@/lib/game-types"
+import { formatMissionTime } from "@/lib/time-utils"
+import "./disaster-panel.css"
+
+const DISASTER_ICONS: Record<string, typeof Waves> = {
+  Waves,
+  ZapOff,
+  CloudLightning,
+  Users,
+}
+
+interface DisasterPanelProps {
+  disasters: Disaster[]
+  missions: Mission[]
+  buildings: Building[]
+  gameTime: number
+  onSelectMission: (mission: Mission) => void
+  onDismiss: (disasterId: string) => void
+}
+
+// The disaster under way, or the summary of one that just ended
+export function DisasterPanel({ disasters, missions, buildings, gameTime, onSelectMission, onDismiss }: DisasterPanelProps) {
+  const disaster = disasters.find((d) => !d.outcome) ?? disasters.findLast((d) => d.outcome && !d.dismissed)
+  if (!disaster) return null
+
+  const config = DISASTER_CONFIGS[disaster.kind]
+  const Icon = DISASTER_ICONS[config.icon] ?? Waves
+  const total = disaster.missionIds.length + disaster.upcoming.length
+  const station = buildings.find((b) => b.id === disaster.knockedOutBuildingId)
+  const open = missions.filter(
+    (m) => m.disasterId === disaster.id && (m.status === "pending" || m.status === "dispatched"),
+  )
+
+  if (disaster.outcome) {
+    const { won, settlement } = disaster.outcome
+    return (
+      <div className={`disaster-panel ${won ? "won" : "lost"}`}>
+        <div className="disaster-panel-header">
+          <Icon className="disaster-panel-icon" />
+          <div className="disaster-panel-title">
+            <span className="disaster-panel-name">{disaster.name}</span>
+            <span className="disaster-panel-status">{won ? "Contained" : "Overwhelmed"}</span>
+          </div>
+          <button className="disaster-panel-close" onClick={() => onDismiss(disaster.id)} aria-label="Close summary">
+            <X size={14} />
+          </button>
+        </div>
+        <div className="disaster-panel-stats">
+          <span>{disaster.completed} resolved</span>
+          <span>{disaster.failed} failed</span>
+          <span className={settlement >= 0 ? "gain" : "loss"}>
+            {settlement >= 0 ? "+" : "-"}${Math.abs(settlement).toLocaleString()}
+          </span>
+        </div>
+      </div>
+    )
+  }
+
+  const minutesLeft = Math.max(0, Math.ceil((disaster.endsAt - gameTime) / 60000))
+  const needed = Math.ceil(total * config.winShare)
+
+  return (
+    <div className="disaster-panel active">
+      <div className="disaster-panel-header">
+        <Icon className="disaster-panel-icon" />
+        <div className="disaster-panel-title">
+          <span className="disaster-panel-name">{disaster.name}</span>
+          <span className="disaster-panel-status">
+            {minutesLeft > 0 ? `${formatMissionTime(minutesLeft)} left` : "Clearing up"}
+          </span>
+        </div>
+      </div>
+      <p className="disaster-panel-description">{config.description}</p>
+      <div className="disaster-panel-stats">
+        <span>
+          {disaster.completed}/{needed} resolved to contain it
+        </span>
+        <span>{disaster.failed} failed</span>
+        {disaster.upcoming.length > 0 && <span>{disaster.upcoming.length} more expected</span>}
+      </div>
+      {station && (station.outOfServiceUntil ?? 0) > gameTime && (
+        <div className="disaster-panel-warning">{station.name} is out of action</div>
+      )}
+      {open.length > 0 && (
+        <ul className="disaster-panel-calls">
+          {open.map((m) => (
+            <li key={m.id}>
+              <button onClick={() => onSelectMission(m)}>
+                <span>{m.title}</span>
+                <span className="disaster-panel-call-status">{m.status}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
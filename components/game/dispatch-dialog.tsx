@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { Send, X } from "lucide-react"
+import type { BuildingType, Mission, VehicleStatus } from "@/lib/game-types"
+import type { DispatchCandidate } from "@/lib/simulation-engine"
+import { formatTravelTime } from "@/lib/time-utils"
+import "./dispatch-dialog.css"
+
+interface DispatchDialogProps {
+  mission: Mission
+  candidates: DispatchCandidate[]
+  /** Units checked when the dialog opens (the automatic pick) */
+  suggested: string[]
+  onConfirm: (vehicleIds: string[]) => void
+  onClose: () => void
+}
+
+const STATUS_LABELS: Record<VehicleStatus, string> = {
+  idle: "Available",
+  preparing: "Preparing",
+  dispatched: "En route",
+  working: "On scene",
+  transporting: "Transporting patient",
+  returning: "Returning",
+}
+
+function formatDistance(meters: number) {
+  return meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`
+}
+
+export function DispatchDialog({ mission, candidates, suggested, onConfirm, onClose }: DispatchDialogProps) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(suggested))
+
+  const toggle = (vehicleId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(vehicleId)) next.delete(vehicleId)
+      else next.add(vehicleId)
+      return next
+    })
+  }
+
+  // Units busy elsewhere can be pulled off their mission; ones already on this
+  // call, or with a patient on board, cannot
+  const canSend = (c: DispatchCandidate) => c.missionId !== mission.id && c.status !== "transporting"
+  const sendable = candidates.filter((c) => canSend(c) && selected.has(c.vehicleId))
+  const groups = [...new Set<BuildingType>(mission.requiredBuildings)].map((type) => ({
+    type,
+    units: candidates.filter((c) => c.buildingType === type),
+  }))
+
+  return (
+    <div className="dispatch-dialog-backdrop" onClick={onClose}>
+      <div className="dispatch-dialog" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <div className="dispatch-dialog-header">
+          <div>
+            <h2 className="dispatch-dialog-title">Choose units</h2>
+            <p className="dispatch-dialog-subtitle">{mission.title}</p>
+          </div>
+          <button onClick={onClose} className="mission-panel-close-btn" aria-label="Close unit selection">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="dispatch-dialog-body">
+          {groups.map(({ type, units }) => (
+            <section key={type} className="dispatch-group">
+              <h3 className="dispatch-group-title">
+                {type.replace(/-/g, " ")}
+                <span className="dispatch-group-count">
+                  {units.filter((u) => canSend(u) && selected.has(u.vehicleId)).length} selected
+                </span>
+              </h3>
+              {units.length === 0 ? (
+                <p className="dispatch-group-empty">No units of this type</p>
+              ) : (
+                units.map((unit) => {
+                  const sendableUnit = canSend(unit)
+                  const busy = unit.status !== "idle"
+                  return (
+                    <label
+                      key={unit.vehicleId}
+                      className={`dispatch-unit ${sendableUnit ? "" : "dispatch-unit-disabled"} ${
+                        sendableUnit && busy ? "dispatch-unit-busy" : ""
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={sendableUnit && selected.has(unit.vehicleId)}
+                        disabled={!sendableUnit}
+                        onChange={() => toggle(unit.vehicleId)}
+                      />
+                      <span className="dispatch-unit-name">
+                        {unit.vehicleType}
+                        <span className="dispatch-unit-station">{unit.buildingName}</span>
+                      </span>
+                      <span className="dispatch-unit-status">
+                        {sendableUnit || unit.status === "transporting" ? STATUS_LABELS[unit.status] : "On this call"}
+                        {sendableUnit && busy && <span className="dispatch-unit-reassign">reassign</span>}
+                      </span>
+                      <span className="dispatch-unit-metric">{formatDistance(unit.distance)}</span>
+                      <span className="dispatch-unit-metric">~{formatTravelTime(unit.etaSeconds)}</span>
+                    </label>
+                  )
+                })
+              )}
+            </section>
+          ))}
+        </div>
+
+        <button
+          onClick={() => onConfirm(sendable.map((c) => c.vehicleId))}
+          disabled={sendable.length === 0}
+          className="mission-dispatch-btn"
+        >
+          <Send className="h-4 w-4" />
+          Dispatch {sendable.length} {sendable.length === 1 ? "unit" : "units"}
+        </button>
+      </div>
+    </div>
+  )
+}
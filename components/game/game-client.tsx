@@ -10,10 +10,17 @@ import { BuildingManager } from "./building-manager"
 import { GameOver } from "./game-over"
 import { StartScreen } from "./start-screen"
 import { MissionNotification } from "./mission-notification"
-import { GameLoop } from "./GameLoop"
 import { TutorialOverlay } from "./tutorial-overlay"
+import { ReplayViewer } from "./replay-viewer"
+import { AutoDispatchPanel } from "./auto-dispatch-panel"
+import { DisasterPanel } from "./disaster-panel"
 import { Building2, Zap, HelpCircle } from "lucide-react"
-import type { CityConfig } from "@/lib/game-types"
+import { formatGameDateTime } from "@/lib/time-utils"
+import type { Building, CityConfig } from "@/lib/game-types"
+import type { SaveSlotInfo } from "@/lib/save-game"
+import type { ReplayLog } from "@/lib/replay"
+import type { RoutingConfig } from "@/lib/routing-config"
+import { parseReplay } from "@/lib/replay"
 import "./game-client.css"
 
 export function GameClient() {
@@ -21,6 +28,9 @@ export function GameClient() {
   const actions = useGameActions()
   const [started, setStarted] = useState(false)
   const [showTutorial, setShowTutorial] = useState(false)
+  const [saves, setSaves] = useState<SaveSlotInfo[]>([])
+  const [replay, setReplay] = useState<ReplayLog | null>(null)
+  const [routing, setRouting] = useState<RoutingConfig | null>(null)
 
   // Sentinel mission object for missions view
   const sentinelMission = {
@@ -36,29 +46,27 @@ export function GameClient() {
     requiredBuildings: [],
     dispatchedVehicles: [],
     workDuration: 0,
+    phases: [],
+    phaseIndex: 0,
+    phaseProgress: 0,
+    pressure: 0,
+    escalated: false,
+    severity: 'moderate' as const,
+    targetResponse: 0,
     createdAt: Date.now(),
     position: { lat: 0, lng: 0 }
   }
 
-  // Time update -- every 100ms for smooth time display
-  useEffect(() => {
-    if (!started) return
-
-    const timeUpdateInterval = setInterval(() => {
-      actions.updateTime() // Update time display
-    }, 100)
-
-    return () => {
-      if (timeUpdateInterval) clearInterval(timeUpdateInterval)
-    }
-  }, [started, actions])
+  // Game time, vehicle movement and mission spawning all advance from the single
+  // fixed-step game clock the simulation worker ticks. Missions spawn on a schedule in
+  // game time, so they follow pause and speed changes regardless of the open tab.
 
-  // Mission spawning is now handled internally by the game-store module
-  // via a self-rescheduling setTimeout chain. It starts on startGame() /
-  // togglePause(unpause) and stops on pause / game-over / reset.
-  // This means missions spawn regardless of which UI tab is open.
-
-  const handleStart = useCallback((city: CityConfig) => {
+  const handleStart = useCallback((city: CityConfig, seed: string) => {
+    actions.setSeed(seed)
+    // Put the seed in the URL so the session can be shared and reproduced
+    const url = new URL(window.location.href)
+    url.searchParams.set("seed", seed)
+    window.history.replaceState(null, "", url)
     actions.setCity(city)
     actions.startGame()
     setStarted(true)
@@ -77,25 +85,86 @@ export function GameClient() {
     }
   }, [actions, state.isPaused])
 
+  // Refresh the saved-game list whenever we are back on the start screen.
+  // Routing settings live in localStorage too, so they load here rather than during SSR.
+  useEffect(() => {
+    if (started) return
+    setSaves(actions.listSaves())
+    setRouting(actions.getRoutingConfig())
+  }, [started]) // not actions: it is a new object every render
+
+  const handleLoad = useCallback((slot: string) => {
+    if (actions.loadGame(slot)) {
+      setStarted(true)
+    }
+  }, [actions])
+
+  const handleDeleteSave = useCallback((slot: string) => {
+    actions.deleteSave(slot)
+    setSaves(actions.listSaves())
+  }, [actions])
+
+  const handleSave = useCallback(() => {
+    if (!state.city) return
+    const defaultName = `${state.city.name} ${formatGameDateTime(state.gameTime)}`
+    const slot = window.prompt("Save game as", defaultName)?.trim()
+    if (slot) actions.saveGame(slot)
+  }, [actions, state.city, state.gameTime])
+
+  const handleRoutingChange = useCallback((config: RoutingConfig) => {
+    actions.setRoutingConfig(config)
+    setRouting(config)
+  }, [actions])
+
+  const handleOpenReplay = useCallback((json: string) => {
+    const log = parseReplay(json)
+    if (log) setReplay(log)
+    else window.alert("This file is not a replay from this version of the game.")
+  }, [])
+
   const handleReset = useCallback(() => {
     actions.resetGame()
     setStarted(false)
   }, [actions])
 
   const buildingTypes = state.buildings.map((b) => b.type)
+  const showingMissions = state.selectedMissionId !== null
+  const selectedMission = state.missions.find((m) => m.id === state.selectedMissionId) ?? null
+  // The state holds ids only; b.vehicles is as of placing, so units come from the live list
+  const withUnits = (b: Building | undefined) =>
+    b ? { ...b, vehicles: state.vehicles.filter((v) => v.buildingId === b.id) } : null
+  const selectedBuilding = withUnits(state.buildings.find((b) => b.id === state.selectedBuildingId))
+  const managingBuilding = withUnits(state.buildings.find((b) => b.id === state.managingBuildingId))
+
+  if (replay) {
+    return <ReplayViewer log={replay} onExit={() => setReplay(null)} />
+  }
 
   if (!started || !state.city) {
-    return <StartScreen onStart={handleStart} />
+    return (
+      <StartScreen
+        onStart={handleStart}
+        saves={saves}
+        onLoad={handleLoad}
+        onDeleteSave={handleDeleteSave}
+        onOpenReplay={handleOpenReplay}
+        routing={routing}
+        onRoutingChange={handleRoutingChange}
+      />
+    )
   }
 
   return (
     <div className="game-client">
-      {/* Game Loop - handles vehicle movement and game ticks */}
-      <GameLoop />
-      
       {/* Top HUD */}
       <header className="game-header">
-        <GameHud state={state} onTogglePause={actions.togglePause} onSetGameSpeed={actions.setGameSpeed} />
+        <GameHud
+          state={state}
+          onTogglePause={actions.togglePause}
+          onSetGameSpeed={actions.setGameSpeed}
+          onSave={handleSave}
+          onExportReplay={actions.exportReplay}
+        />
       </header>
 
       {/* Main Content */}
@@ -105,7 +174,7 @@ export function GameClient() {
           <div className="game-tabs">
             <div className="game-tabs-list">
               <button 
-                className={`game-tab ${!state.selectedMission ? "active" : ""}`}
+                className={`game-tab ${!showingMissions ? "active" : ""}`}
                 onClick={() => {
                   actions.selectMission(null)
                   actions.setPlacing(null)
@@ -115,7 +184,7 @@ export function GameClient() {
                 Build
               </button>
               <button 
-                className={`game-tab ${state.selectedMission ? "active" : ""}`}
+                className={`game-tab ${showingMissions ? "active" : ""}`}
                 onClick={() => {
                   // Mark missions as read when opening missions panel
                   actions.markMissionsAsRead()
@@ -128,11 +197,11 @@ export function GameClient() {
               </button>
             </div>
             <div className="game-tabs-content">
-              {!state.selectedMission && (
+              {!showingMissions && (
                 <BuildingPanel
                   state={state}
                   placingBuilding={state.placingBuilding}
-                  selectedBuilding={state.selectedBuilding}
+                  selectedBuilding={selectedBuilding}
                   onSetPlacing={actions.setPlacing}
                   onUpgrade={actions.upgradeBuilding}
                   onSell={actions.sellBuilding}
@@ -140,13 +209,25 @@ export function GameClient() {
                   onManage={() => actions.openBuildingManager(null)}
                 />
               )}
-              {state.selectedMission && (
+              {showingMissions && (
                 <MissionPanel
                   missions={state.missions}
-                  selectedMission={state.selectedMission.id === 'missions-view' ? null : state.selectedMission}
+                  selectedMission={selectedMission}
                   onSelectMission={actions.selectMission}
                   onDispatch={actions.dispatchVehicle}
                   buildingTypes={buildingTypes}
+                  vehicles={state.vehicles}
+                  gameTime={state.gameTime}
+                  onRecall={actions.recallVehicle}
+                  onReassign={actions.reassignVehicle}
+                />
+              )}
+              {state.selectedMissionId === 'missions-view' && (
+                <AutoDispatchPanel
+                  policies={state.dispatchPolicies}
+                  log={state.dispatchLog}
+                  buildings={state.buildings}
+                  onChange={actions.setDispatchPolicy}
                 />
               )}
             </div>
@@ -165,16 +246,31 @@ export function GameClient() {
             onSelectBuilding={actions.selectBuilding}
             onSelectMission={actions.selectMission}
             onOpenBuilding={actions.openBuildingManager}
+            gameTime={state.gameTime}
+            weather={state.weather[0]?.kind ?? "clear"}
+            disasters={state.disasters}
+            roadClosures={state.roadClosures}
+            isPaused={state.isPaused}
+            seed={state.seed}
+          />
+          <DisasterPanel
+            disasters={state.disasters}
+            missions={state.missions}
+            buildings={state.buildings}
+            gameTime={state.gameTime}
+            onSelectMission={actions.selectMission}
+            onDismiss={actions.dismissDisaster}
           />
         </main>
       </div>
 
       {/* Building Management Modal */}
-      {state.managingBuilding && (
+      {managingBuilding && (
         <BuildingManager
-          building={state.managingBuilding}
+          building={managingBuilding}
           money={state.money}
           onUpgrade={actions.upgradeBuilding}
+          onBuyUpgrade={actions.buyUpgrade}
           onHireStaff={actions.hireStaff}
           onPurchaseVehicle={actions.purchaseVehicle}
           onSell={actions.sellBuilding}
@@ -13,22 +13,62 @@ import {
   Zap,
   Truck,
   Gauge,
+  Save,
+  FileDown,
+  Sun,
+  Moon,
+  Sunrise,
+  Sunset,
+  CloudSun,
+  CloudRain,
+  CloudSnow,
+  Snowflake,
+  CloudLightning,
+  ThermometerSun,
 } from "lucide-react"
-import type { GameState } from "@/lib/game-types"
-import { formatGameTime, formatGameDate, getSpeedMultiplier } from "@/lib/time-utils"
+import type { DayPhase, GameState, WeatherKind } from "@/lib/game-types"
+import { WEATHER_CONFIGS, dayPhase, nextPeak } from "@/lib/game-types"
+import { formatGameTime, formatGameDate, getSpeedMultiplier, hourOfDay } from "@/lib/time-utils"
 import "./game-hud.css"
 
+const PHASE_ICONS: Record<DayPhase, typeof Sun> = {
+  night: Moon,
+  morning: Sunrise,
+  day: Sun,
+  evening: Sunset,
+}
+
+const WEATHER_ICONS: Record<WeatherKind, typeof Sun> = {
+  clear: CloudSun,
+  rain: CloudRain,
+  snow: CloudSnow,
+  ice: Snowflake,
+  storm: CloudLightning,
+  heatwave: ThermometerSun,
+}
+
 interface GameHudProps {
   state: GameState
   onTogglePause: () => void
   onSetGameSpeed?: (speed: 1 | 2 | 3) => void
+  onSave?: () => void
+  onExportReplay?: () => void
 }
 
-export function GameHud({ state, onTogglePause, onSetGameSpeed }: GameHudProps) {
+export function GameHud({ state, onTogglePause, onSetGameSpeed, onSave, onExportReplay }: GameHudProps) {
   const activeMissions = state.missions.filter(
     (m) => m.status === "pending" || m.status === "dispatched",
   ).length
 
+  // Everything time-of-day runs on the city's clock, not the player's
+  const timeZone = state.city?.timeZone
+  const hour = timeZone ? hourOfDay(state.gameTime, timeZone) : null
+  const phase = hour !== null ? dayPhase(hour) : null
+  const peak = hour !== null ? nextPeak(hour) : null
+  const PhaseIcon = phase ? PHASE_ICONS[phase.phase] : null
+  const [weather, ...forecast] = state.weather
+  const WeatherIcon = weather ? WEATHER_ICONS[weather.kind] : null
+
   const handleSpeedChange = (speed: 1 | 2 | 3) => {
     if (onSetGameSpeed) {
       onSetGameSpeed(speed)
@@ -55,17 +95,55 @@ export function GameHud({ state, onTogglePause, onSetGameSpeed }: GameHudProps)
           >
             {state.isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
           </button>
+          {onSave && (
+            <button onClick={onSave} className="hud-button" aria-label="Save game" title="Save game">
+              <Save className="h-4 w-4" />
+            </button>
+          )}
+          {onExportReplay && (
+            <button onClick={onExportReplay} className="hud-button" aria-label="Export replay" title="Export replay">
+              <FileDown className="h-4 w-4" />
+            </button>
+          )}
         </div>
 
         {/* Time */}
         <div className="hud-time">
           <Clock className="clock" />
           <div className="time-display">
-            <span className="time">{formatGameTime(state.gameTime)}</span>
-            <span className="date">{formatGameDate(state.gameTime)}</span>
+            <span className="time">{formatGameTime(state.gameTime, timeZone)}</span>
+            <span className="date">{formatGameDate(state.gameTime, timeZone)}</span>
           </div>
         </div>
 
+        {/* Phase of day */}
+        {phase && peak && PhaseIcon && (
+          <div className={`hud-daylight ${phase.phase}`} title="Incidents and traffic follow the time of day">
+            <PhaseIcon className="h-3.5 w-3.5" />
+            <div className="daylight-display">
+              <span className="daylight-phase">{phase.label}</span>
+              <span className="daylight-peak">
+                {peak.label} in {Math.max(1, Math.round(peak.inHours))}h
+              </span>
+            </div>
+          </div>
+        )}
+
+        {/* Weather and forecast */}
+        {weather && WeatherIcon && (
+          <div className={`hud-weather ${weather.kind}`} title="Weather changes incident rates and driving speeds">
+            <WeatherIcon className="h-3.5 w-3.5" />
+            <div className="weather-display">
+              <span className="weather-current">{WEATHER_CONFIGS[weather.kind].label}</span>
+              <span className="weather-forecast">
+                {forecast
+                  .map((spell) => `${WEATHER_CONFIGS[spell.kind].label} ${formatGameTime(spell.from, timeZone)}`)
+                  .join(" · ")}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Speed Control */}
         <div className="hud-speed">
           <Gauge className="h-3.5 w-3.5" />
@@ -1,6 +1,6 @@
 "use client"
 
-import { Skull, RotateCcw, CheckCircle2, XCircle, DollarSign, Clock } from "lucide-react"
+import { Skull, RotateCcw, CheckCircle2, XCircle, DollarSign, Clock, HeartPulse } from "lucide-react"
 import type { GameState } from "@/lib/game-types"
 
 interface GameOverProps {
@@ -51,6 +51,13 @@ export function GameOver({ state, onReset }: GameOverProps) {
             <div className="text-lg font-bold text-destructive">{state.missionsFailed}</div>
             <div className="text-xs text-muted-foreground">Failed</div>
           </div>
+          <div className="col-span-2 rounded-lg border border-border bg-secondary/30 p-3 text-center">
+            <HeartPulse className="mx-auto mb-1 h-4 w-4 text-primary" />
+            <div className="text-lg font-bold text-foreground">
+              {state.patientOutcomes.recovered} / {state.patientOutcomes.complications} / {state.patientOutcomes.lost}
+            </div>
+            <div className="text-xs text-muted-foreground">Patients recovered / complications / lost</div>
+          </div>
         </div>
 
         <button
@@ -1,9 +1,10 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { AlertTriangle, X } from "lucide-react"
+import { AlertTriangle, CheckCircle2, X } from "lucide-react"
 import type { Mission } from "@/lib/game-types"
 import { MISSION_CONFIGS } from "@/lib/game-types"
+import { formatMissionTime } from "@/lib/time-utils"
 import "./mission-notification.css"
 
 interface MissionNotificationProps {
@@ -29,6 +30,10 @@ export function MissionNotification({ mission, onClose, onSelect }: MissionNotif
 
   if (!isVisible) return null
 
+  const completed = mission.status === "completed"
+  const responseMinutes =
+    mission.respondedAt !== undefined ? Math.round((mission.respondedAt - mission.createdAt) / 60000) : null
+
   const handleClick = () => {
     if (onSelect) {
       onSelect(mission)
@@ -47,11 +52,26 @@ export function MissionNotification({ mission, onClose, onSelect }: MissionNotif
         onKeyDown={(e) => { if (e.key === "Enter") handleClick() }}
       >
         <div className="mission-notification-icon" style={{ color: iconColor }}>
-          <AlertTriangle size={20} />
+          {completed ? <CheckCircle2 size={20} /> : <AlertTriangle size={20} />}
         </div>
         <div className="mission-notification-text">
-          <div className="mission-notification-title">Incoming Emergency</div>
+          <div className="mission-notification-title">
+            {completed
+              ? "Mission Complete"
+              : mission.escalated
+                ? "Incident Escalated"
+                : mission.type === "fatality-recovery"
+                  ? "Fatality Reported"
+                  : "Incoming Emergency"}
+          </div>
           <div className="mission-notification-name">{mission.title}</div>
+          {completed && mission.responseScore !== undefined && (
+            <div className="mission-notification-detail">
+              {responseMinutes !== null && `Response ${formatMissionTime(responseMinutes)} · `}
+              Score {Math.round(mission.responseScore * 100)}%
+              {mission.payout !== undefined && ` · +$${mission.payout.toLocaleString()}`}
+            </div>
+          )}
         </div>
         <button className="mission-notification-close" onClick={(e) => { e.stopPropagation(); onClose() }}>
           <X size={16} />
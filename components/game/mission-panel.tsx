@@ -1,5 +1,6 @@
 "use client"
 
+import { useState } from "react"
 import {
   Flame,
   CarFront,
@@ -12,10 +13,17 @@ import {
   X,
   CheckCircle2,
   XCircle,
+  Truck,
+  ListChecks,
+  Undo2,
+  BedDouble,
+  Skull,
 } from "lucide-react"
-import type { Mission } from "@/lib/game-types"
-import { MISSION_CONFIGS } from "@/lib/game-types"
-import { formatMissionTime } from "@/lib/time-utils"
+import type { BuildingType, Mission, Vehicle } from "@/lib/game-types"
+import { MISSION_CONFIGS, PATIENT_CARE, responseScore, transportUnits } from "@/lib/game-types"
+import { formatMissionTime, formatTravelTime } from "@/lib/time-utils"
+import { useDispatchQueries } from "@/lib/game-store"
+import { DispatchDialog } from "./dispatch-dialog"
 import "./mission-panel.css"
 
 const MISSION_ICONS: Record<string, typeof Flame> = {
@@ -24,14 +32,34 @@ const MISSION_ICONS: Record<string, typeof Flame> = {
   HeartPulse,
   ShieldAlert,
   AlertTriangle,
+  Skull,
+}
+
+// Game minutes from the call to the first unit on scene, or so far while nobody is there yet
+function responseMinutes(mission: Mission, gameTime: number) {
+  return ((mission.respondedAt ?? gameTime) - mission.createdAt) / 60000
+}
+
+// "fire station" or "2× fire station" per type, in first-seen order
+function unitCounts(types: BuildingType[]) {
+  const counts = new Map<BuildingType, number>()
+  for (const t of types) counts.set(t, (counts.get(t) ?? 0) + 1)
+  return [...counts].map(([type, count]) => ({
+    type,
+    label: `${count > 1 ? `${count}× ` : ""}${type.replace(/-/g, " ")}`,
+  }))
 }
 
 interface MissionPanelProps {
   missions: Mission[]
   selectedMission: Mission | null
   onSelectMission: (mission: Mission | null) => void
-  onDispatch: (missionId: string) => void
+  onDispatch: (missionId: string, vehicleIds?: string[]) => void
   buildingTypes: string[]
+  vehicles: Vehicle[]
+  gameTime: number
+  onRecall: (vehicleId: string) => void
+  onReassign: (vehicleId: string, missionId: string) => void
 }
 
 export function MissionPanel({
@@ -40,7 +68,16 @@ export function MissionPanel({
   onSelectMission,
   onDispatch,
   buildingTypes,
+  vehicles,
+  gameTime,
+  onRecall,
+  onReassign,
 }: MissionPanelProps) {
+  // Mission whose unit selection dialog is open
+  const [choosingFor, setChoosingFor] = useState<string | null>(null)
+  // Answers come from the simulation worker a moment after they are first asked for
+  const { previewDispatch, dispatchCandidates } = useDispatchQueries()
+
   const activeMissions = missions.filter(
     (m) => m.status === "pending" || m.status === "dispatched",
   )
@@ -54,9 +91,27 @@ export function MissionPanel({
     const Icon = MISSION_ICONS[config.icon]
     const urgencyRatio = selectedMission.timeRemaining / selectedMission.timeLimit
     const canDispatch = selectedMission.status === "pending"
+    const canReinforce = canDispatch || selectedMission.status === "dispatched"
     const hasRequiredBuildings = selectedMission.requiredBuildings.every((bt) =>
       buildingTypes.includes(bt),
     )
+    const preview = canDispatch ? previewDispatch(selectedMission.id) : []
+    const assignedUnits = vehicles.filter((v) => v.missionId === selectedMission.id)
+    // Every patient needs a carrier of their own among the units that would go
+    const patientCount = selectedMission.patients?.length ?? 0
+    const carrierCount = transportUnits(preview.map((u) => u.buildingType)).length
+    const carrierShortfall = Math.max(0, patientCount - carrierCount)
+
+    // Idle units go out as one dispatch while the call is pending; everything
+    // else (busy units, or reinforcements for a running call) is reassigned
+    const sendUnits = (vehicleIds: string[]) => {
+      const idle = new Set(vehicles.filter((v) => v.status === "idle").map((v) => v.id))
+      const fresh = canDispatch ? vehicleIds.filter((id) => idle.has(id)) : []
+      if (fresh.length > 0) onDispatch(selectedMission.id, fresh)
+      for (const id of vehicleIds) {
+        if (!fresh.includes(id)) onReassign(id, selectedMission.id)
+      }
+    }
 
     return (
       <div className="mission-panel">
@@ -85,6 +140,10 @@ export function MissionPanel({
               </h3>
               <p className="mission-panel-type" style={{ color: config.color }}>
                 {selectedMission.type.replace("-", " ")}
+                {selectedMission.zone && <span className="mission-panel-zone"> · {selectedMission.zone}</span>}
+                <span className={`mission-severity mission-severity-${selectedMission.severity}`}>
+                  {selectedMission.severity}
+                </span>
               </p>
             </div>
           </div>
@@ -140,11 +199,37 @@ export function MissionPanel({
             </div>
           </div>
 
+          {/* Response time against the target, and what it does to the reward */}
+          {selectedMission.targetResponse > 0 && (() => {
+            const minutes = responseMinutes(selectedMission, gameTime)
+            const score = selectedMission.responseScore ?? responseScore(minutes, selectedMission.targetResponse)
+            const arrived = selectedMission.respondedAt !== undefined
+            return (
+              <div className="mission-response">
+                <div className="mission-response-row">
+                  <span>Target response</span>
+                  <span>{formatMissionTime(selectedMission.targetResponse)}</span>
+                </div>
+                <div className="mission-response-row">
+                  <span>{arrived ? "Response time" : "Waiting for first unit"}</span>
+                  <span>{formatMissionTime(Math.round(minutes))}</span>
+                </div>
+                <div className={`mission-response-row mission-response-score ${score >= 1 ? "mission-response-good" : "mission-response-late"}`}>
+                  <span>{selectedMission.status === "completed" ? "Score" : arrived ? "Score on completion" : "Score if on scene now"}</span>
+                  <span>
+                    {Math.round(score * 100)}%
+                    {selectedMission.payout !== undefined && ` · +$${selectedMission.payout.toLocaleString()}`}
+                  </span>
+                </div>
+              </div>
+            )
+          })()}
+
           {/* Required buildings */}
           <div className="mission-required">
             <h4 className="mission-required-title">Required</h4>
             <div className="mission-required-list">
-              {selectedMission.requiredBuildings.map((bt) => {
+              {unitCounts(selectedMission.requiredBuildings).map(({ type: bt, label }) => {
                 const hasIt = buildingTypes.includes(bt)
                 return (
                   <div
@@ -159,7 +244,7 @@ export function MissionPanel({
                       <XCircle className="h-3.5 w-3.5" />
                     )}
                     <span className={hasIt ? "" : ""}>
-                      {bt.replace(/-/g, " ")}
+                      {label}
                     </span>
                   </div>
                 )
@@ -167,21 +252,198 @@ export function MissionPanel({
             </div>
           </div>
 
+          {/* Phase timeline */}
+          <div className="mission-phases">
+            <h4 className="mission-required-title">
+              Phases
+              {selectedMission.escalated ? (
+                <span className="mission-escalated">Escalated</span>
+              ) : (
+                selectedMission.pressure > 0.5 && <span className="mission-escalation-risk">Escalating</span>
+              )}
+            </h4>
+            <ol className="mission-phase-list">
+              {selectedMission.phases.map((phase, i) => {
+                const phaseState =
+                  i < selectedMission.phaseIndex ? "done" : i === selectedMission.phaseIndex ? "current" : "upcoming"
+                return (
+                  <li key={phase.name} className={`mission-phase mission-phase-${phaseState}`}>
+                    <div className="mission-phase-header">
+                      <span className="mission-phase-name">{phase.name}</span>
+                      <span className="mission-phase-duration">
+                        {phaseState === "done" ? <CheckCircle2 className="h-3.5 w-3.5" /> : formatMissionTime(phase.duration)}
+                      </span>
+                    </div>
+                    <div className="mission-phase-units">
+                      {unitCounts(phase.requiredBuildings).map((u) => u.label).join(", ")}
+                    </div>
+                    {phaseState === "current" && selectedMission.status === "dispatched" && (
+                      <div className="mission-timer-bar">
+                        <div
+                          className="mission-timer-progress"
+                          style={{
+                            width: `${Math.min(1, selectedMission.phaseProgress / phase.duration) * 100}%`,
+                            backgroundColor: config.color,
+                          }}
+                        />
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ol>
+            {!selectedMission.escalated && (
+              <div className="mission-escalation">
+                <span>Escalation risk</span>
+                <div className="mission-timer-bar">
+                  <div
+                    className="mission-timer-progress"
+                    style={{
+                      width: `${selectedMission.pressure * 100}%`,
+                      backgroundColor: "hsl(0, 72%, 55%)",
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Patients: each needs an ambulance on scene and a free bed once the scene is done */}
+          {selectedMission.patients && (
+            <div className="mission-units">
+              <h4 className="mission-required-title">Patients</h4>
+              <div className="mission-units-list">
+                {selectedMission.patients.map((p) => (
+                  <div key={p.id} className={`mission-unit mission-patient-${p.severity}`}>
+                    <BedDouble className="h-3.5 w-3.5" />
+                    <span className="mission-unit-name">
+                      <span className="mission-patient-severity">{p.severity}</span>
+                      <span className="mission-unit-station">
+                        {PATIENT_CARE[p.severity].hospitalOnly ? "Needs a hospital" : "Hospital or clinic"}
+                      </span>
+                    </span>
+                    <span className="mission-unit-eta">
+                      {p.outcome ?? `${formatMissionTime(PATIENT_CARE[p.severity].goldenMinutes)} window`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Units: who would go before dispatch, who is on the way after */}
+          {canDispatch && hasRequiredBuildings && (
+            <div className="mission-units">
+              <h4 className="mission-required-title">Will send</h4>
+              {patientCount > 0 && (
+                <p className={`mission-units-carriers ${carrierShortfall > 0 ? "mission-units-short" : ""}`}>
+                  {patientCount} {patientCount === 1 ? "patient" : "patients"}, {carrierCount} to carry them
+                  {carrierShortfall > 0 &&
+                    ` · ${carrierShortfall} ${carrierShortfall === 1 ? "ambulance" : "ambulances"} short, ` +
+                      `${carrierShortfall === 1 ? "that patient" : "those patients"} would be lost`}
+                </p>
+              )}
+              {preview.length === 0 ? (
+                <p className="mission-units-empty">No idle units</p>
+              ) : (
+                <div className="mission-units-list">
+                  {preview.map((unit) => (
+                    <div key={unit.vehicleId} className="mission-unit">
+                      <Truck className="h-3.5 w-3.5" />
+                      <span className="mission-unit-name">
+                        {unit.vehicleType}
+                        <span className="mission-unit-station">{unit.buildingName}</span>
+                      </span>
+                      <span className="mission-unit-eta">~{formatTravelTime(unit.etaSeconds)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {assignedUnits.length > 0 && (
+            <div className="mission-units">
+              <h4 className="mission-required-title">Units</h4>
+              <div className="mission-units-list">
+                {assignedUnits.map((v) => (
+                  <div key={v.id} className="mission-unit">
+                    <Truck className="h-3.5 w-3.5" />
+                    <span className="mission-unit-name">{v.type}</span>
+                    <span className="mission-unit-eta">
+                      {v.status === "working"
+                        ? "On scene"
+                        : v.status === "returning"
+                          ? "Returning"
+                          : v.eta !== undefined
+                            ? `ETA ${formatTravelTime((v.eta - gameTime) / 1000)}`
+                            : "Preparing"}
+                    </span>
+                    {v.status !== "returning" && (
+                      <button
+                        onClick={() => onRecall(v.id)}
+                        className="mission-unit-recall"
+                        aria-label={`Recall ${v.type}`}
+                        title="Recall to station"
+                      >
+                        <Undo2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Dispatch */}
           {canDispatch && (
-            <button
-              onClick={() => onDispatch(selectedMission.id)}
-              disabled={!hasRequiredBuildings}
-              className="mission-dispatch-btn"
-            >
-              <Send className="h-4 w-4" />
-              Dispatch Units
-            </button>
+            <div className="mission-dispatch-actions">
+              <button
+                onClick={() => onDispatch(selectedMission.id)}
+                disabled={!hasRequiredBuildings}
+                className="mission-dispatch-btn"
+              >
+                <Send className="h-4 w-4" />
+                Dispatch Units
+              </button>
+              <button
+                onClick={() => setChoosingFor(selectedMission.id)}
+                disabled={!hasRequiredBuildings}
+                className="mission-choose-btn"
+                aria-label="Choose units"
+                title="Choose units"
+              >
+                <ListChecks className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
+          {canReinforce && choosingFor === selectedMission.id && (
+            <DispatchDialog
+              mission={selectedMission}
+              candidates={dispatchCandidates(selectedMission.id)}
+              suggested={preview.map((u) => u.vehicleId)}
+              onConfirm={(vehicleIds) => {
+                sendUnits(vehicleIds)
+                setChoosingFor(null)
+              }}
+              onClose={() => setChoosingFor(null)}
+            />
           )}
 
           {selectedMission.status === "dispatched" && (
-            <div className="mission-dispatched">
-              Units dispatched - en route
+            <div className="mission-dispatch-actions">
+              <div className="mission-dispatched">
+                Units dispatched - en route
+              </div>
+              <button
+                onClick={() => setChoosingFor(selectedMission.id)}
+                className="mission-choose-btn"
+                aria-label="Send more units"
+                title="Send more units"
+              >
+                <ListChecks className="h-4 w-4" />
+              </button>
             </div>
           )}
         </div>
@@ -280,8 +542,11 @@ export function MissionPanel({
                     }`}
                   >
                     {isCompleted
-                      ? `+$${mission.reward.toLocaleString()}`
+                      ? `+$${(mission.payout ?? mission.reward).toLocaleString()}`
                       : `-$${mission.penalty.toLocaleString()}`}
+                    {mission.responseScore !== undefined && (
+                      <span className="mission-result-score">{Math.round(mission.responseScore * 100)}%</span>
+                    )}
                   </span>
                 </div>
               )
@@ -0,0 +1,140 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Play, Pause, X, CheckCircle2, XCircle, DollarSign } from "lucide-react"
+import type { ReplayLog } from "@/lib/replay"
+import { ReplayPlayer } from "@/lib/replay-player"
+import { FIXED_STEP_SECONDS } from "@/lib/game-clock"
+import { formatGameDateTime } from "@/lib/time-utils"
+import { CityMap } from "./city-map"
+import "./game-client.css"
+import "./game-hud.css"
+import "./replay-viewer.css"
+
+interface ReplayViewerProps {
+  log: ReplayLog
+  onExit: () => void
+}
+
+const FRAME_MS = 100
+// At 1x a replay plays like the live game: 1 real second = 1 game minute
+const STEPS_PER_FRAME = (60 / FIXED_STEP_SECONDS) * (FRAME_MS / 1000)
+const PLAYBACK_SPEEDS = [1, 4, 16, 60]
+
+export function ReplayViewer({ log, onExit }: ReplayViewerProps) {
+  const [player] = useState(() => new ReplayPlayer(log))
+  const [state, setState] = useState(() => player.getState())
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(true)
+  const [speed, setSpeed] = useState(1)
+
+  const sync = useCallback(() => {
+    setState(player.getState())
+    setPosition(player.position)
+  }, [player])
+
+  useEffect(() => {
+    if (!playing) return
+    const id = setInterval(() => {
+      player.advance(STEPS_PER_FRAME * speed)
+      sync()
+      if (player.position >= player.length) setPlaying(false)
+    }, FRAME_MS)
+    return () => clearInterval(id)
+  }, [player, playing, speed, sync])
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!playing && player.position >= player.length) {
+      player.seek(0)
+      sync()
+    }
+    setPlaying(!playing)
+  }
+
+  // Seeking backwards re-simulates from the start of the log
+  const handleScrub = (step: number) => {
+    player.seek(step)
+    sync()
+  }
+
+  if (!state.city) return null
+
+  return (
+    <div className="game-client">
+      <header className="game-header replay-header">
+        <div className="replay-controls">
+          <button
+            onClick={togglePlaying}
+            className={`hud-button ${playing ? "" : "primary"}`}
+            aria-label={playing ? "Pause replay" : "Play replay"}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <div className="speed-buttons">
+            {PLAYBACK_SPEEDS.map((s) => (
+              <button
+                key={s}
+                className={`speed-button ${speed === s ? "active" : ""}`}
+                onClick={() => setSpeed(s)}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <input
+            type="range"
+            className="replay-scrubber"
+            min={0}
+            max={player.length}
+            value={position}
+            onChange={(e) => handleScrub(Number(e.target.value))}
+            aria-label="Replay position"
+          />
+          <span className="replay-time">{formatGameDateTime(state.gameTime)}</span>
+        </div>
+
+        <div className="hud-resources">
+          <div className="hud-resource">
+            <DollarSign className="money" />
+            <span className="hud-resource-count">{state.money.toLocaleString()}</span>
+          </div>
+          <div className="hud-resource">
+            <CheckCircle2 className="check" />
+            <span className="hud-resource-count">{state.missionsCompleted}</span>
+          </div>
+          <div className="hud-resource danger">
+            <XCircle className="fail" />
+            <span className="hud-resource-count">{state.missionsFailed}</span>
+          </div>
+          <button onClick={onExit} className="hud-button" aria-label="Exit replay" title="Exit replay">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </header>
+
+      <div className="game-main-content">
+        <main className="game-map-container">
+          <CityMap
+            city={state.city}
+            buildings={state.buildings}
+            missions={state.missions}
+            vehicles={state.vehicles}
+            placingBuilding={null}
+            onPlaceBuilding={() => {}}
+            onSelectBuilding={() => {}}
+            onSelectMission={() => {}}
+            onOpenBuilding={() => {}}
+            gameTime={state.gameTime}
+            weather={state.weather[0]?.kind ?? "clear"}
+            disasters={state.disasters}
+            roadClosures={state.roadClosures}
+            isPaused={!playing}
+            seed={state.seed}
+            showTraffic={false}
+          />
+        </main>
+      </div>
+    </div>
+  )
+}
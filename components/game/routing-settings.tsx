@@ -0,0 +1,78 @@
+"use client"
+
+import { Route } from "lucide-react"
+import type { RoutingConfig, RoutingEngine } from "@/lib/routing-config"
+import { ENGINE_DEFAULTS, ROUTING_ENGINES } from "@/lib/routing-config"
+
+interface RoutingSettingsProps {
+  config: RoutingConfig
+  onChange: (config: RoutingConfig) => void
+}
+
+export function RoutingSettings({ config, onChange }: RoutingSettingsProps) {
+  const selectEngine = (engine: RoutingEngine) => {
+    // A new engine starts from its own defaults; the API key only means something to GraphHopper
+    onChange({ engine, ...ENGINE_DEFAULTS[engine], apiKey: engine === "graphhopper" ? config.apiKey : undefined })
+  }
+
+  return (
+    <details className="routing-settings">
+      <summary className="routing-settings-summary">
+        <Route className="saved-game-icon" />
+        Routing: {ROUTING_ENGINES.find((e) => e.id === config.engine)?.name}
+      </summary>
+      <div className="routing-settings-body">
+        <label className="routing-field">
+          <span className="routing-field-label">Engine</span>
+          <select
+            className="seed-input"
+            value={config.engine}
+            onChange={(e) => selectEngine(e.target.value as RoutingEngine)}
+          >
+            {ROUTING_ENGINES.map((e) => (
+              <option key={e.id} value={e.id}>{e.name}</option>
+            ))}
+          </select>
+        </label>
+
+        {config.engine === "offline" ? (
+          <p className="routing-hint">
+            Routes are computed in the browser from the city's baked road graph.
+          </p>
+        ) : (
+          <>
+            <label className="routing-field">
+              <span className="routing-field-label">Server URL</span>
+              <input
+                className="seed-input"
+                value={config.baseUrl}
+                onChange={(e) => onChange({ ...config, baseUrl: e.target.value.trim() })}
+                spellCheck={false}
+              />
+            </label>
+            <label className="routing-field">
+              <span className="routing-field-label">Profile</span>
+              <input
+                className="seed-input"
+                value={config.profile}
+                onChange={(e) => onChange({ ...config, profile: e.target.value.trim() })}
+                spellCheck={false}
+              />
+            </label>
+            {config.engine === "graphhopper" && (
+              <label className="routing-field">
+                <span className="routing-field-label">API key</span>
+                <input
+                  className="seed-input"
+                  value={config.apiKey ?? ""}
+                  onChange={(e) => onChange({ ...config, apiKey: e.target.value.trim() || undefined })}
+                  spellCheck={false}
+                />
+              </label>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  )
+}
@@ -1,17 +1,44 @@
 "use client"
 
-import { useState } from "react"
-import { Siren, Play, MapPin, Users, Check } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { Siren, Play, MapPin, Users, Check, FolderOpen, Trash2, Dices, Film } from "lucide-react"
 import type { CityConfig } from "@/lib/game-types"
 import { CITY_OPTIONS } from "@/lib/game-types"
+import type { SaveSlotInfo } from "@/lib/save-game"
+import type { RoutingConfig } from "@/lib/routing-config"
+import { formatGameDateTime } from "@/lib/time-utils"
+import { randomSeed } from "@/lib/rng"
+import { RoutingSettings } from "./routing-settings"
 import "./start-screen.css"
 
 interface StartScreenProps {
-  onStart: (city: CityConfig) => void
+  onStart: (city: CityConfig, seed: string) => void
+  saves?: SaveSlotInfo[]
+  onLoad?: (slot: string) => void
+  onDeleteSave?: (slot: string) => void
+  /** Receives the contents of a replay file picked by the player */
+  onOpenReplay?: (json: string) => void
+  routing?: RoutingConfig | null
+  onRoutingChange?: (config: RoutingConfig) => void
 }
 
-export function StartScreen({ onStart }: StartScreenProps) {
+export function StartScreen({
+  onStart,
+  saves = [],
+  onLoad,
+  onDeleteSave,
+  onOpenReplay,
+  routing,
+  onRoutingChange,
+}: StartScreenProps) {
   const [selectedCity, setSelectedCity] = useState<CityConfig>(CITY_OPTIONS[0])
+  const [seed, setSeed] = useState("")
+  const replayInputRef = useRef<HTMLInputElement>(null)
+
+  // A shared link (?seed=abc123) starts the same session; otherwise roll a fresh seed
+  useEffect(() => {
+    setSeed(new URLSearchParams(window.location.search).get("seed") || randomSeed())
+  }, [])
 
   return (
     <div className="start-screen">
@@ -63,6 +90,81 @@ export function StartScreen({ onStart }: StartScreenProps) {
           </div>
         </div>
 
+        <div className="seed-selection">
+          <label htmlFor="seed-input" className="seed-label">Seed</label>
+          <div className="seed-row">
+            <input
+              id="seed-input"
+              className="seed-input"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value.trim())}
+              spellCheck={false}
+            />
+            <button
+              onClick={() => setSeed(randomSeed())}
+              className="seed-random"
+              aria-label="Random seed"
+              title="Random seed"
+            >
+              <Dices className="seed-random-icon" />
+            </button>
+          </div>
+        </div>
+
+        {saves.length > 0 && onLoad && (
+          <div className="saved-games">
+            <h2 className="saved-games-title">Continue</h2>
+            <div className="saved-games-list">
+              {saves.map((save) => (
+                <div key={save.slot} className="saved-game">
+                  <button onClick={() => onLoad(save.slot)} className="saved-game-load">
+                    <FolderOpen className="saved-game-icon" />
+                    <div className="saved-game-info">
+                      <div className="saved-game-name">{save.slot}</div>
+                      <div className="saved-game-details">
+                        {save.cityName} | {formatGameDateTime(save.gameTime)} | ${save.money.toLocaleString()}
+                      </div>
+                    </div>
+                  </button>
+                  {onDeleteSave && (
+                    <button
+                      onClick={() => onDeleteSave(save.slot)}
+                      className="saved-game-delete"
+                      aria-label={`Delete save ${save.slot}`}
+                    >
+                      <Trash2 className="saved-game-icon" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {routing && onRoutingChange && (
+          <RoutingSettings config={routing} onChange={onRoutingChange} />
+        )}
+
+        {onOpenReplay && (
+          <div className="replay-open">
+            <button onClick={() => replayInputRef.current?.click()} className="replay-open-button">
+              <Film className="saved-game-icon" />
+              Watch a replay
+            </button>
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={async (e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ""
+                if (file) onOpenReplay(await file.text())
+              }}
+            />
+          </div>
+        )}
+
         <div className="how-to-play">
           <h2 className="how-to-play-title">How to Play</h2>
           <ul className="how-to-play-list">
@@ -86,7 +188,7 @@ export function StartScreen({ onStart }: StartScreenProps) {
         </div>
 
         <button
-          onClick={() => onStart(selectedCity)}
+          onClick={() => onStart(selectedCity, seed || randomSeed())}
           className="start-button"
         >
           <Play className="play-icon" />
@@ -0,0 +1,52 @@
+/**
+ * Game Clock
+ * The single authority on how far the simulation should advance. Real time
+ * flows into an accumulator (scaled by game speed) and comes out as a whole
+ * number of fixed simulation steps, so the result never depends on frame rate.
+ *
+ * When the tab is throttled or backgrounded the backlog is worked off over the
+ * next frames, step by step, which keeps catch-up deterministic.
+ */
+
+/** Game seconds simulated per step */
+export const FIXED_STEP_SECONDS = 1
+export const FIXED_STEP_MINUTES = FIXED_STEP_SECONDS / 60
+
+// 1 real second = 1 game minute at 1x speed
+const GAME_SECONDS_PER_REAL_MS = 60 / 1000
+
+// Upper bound on steps per frame; anything above carries over to the next frame
+const MAX_STEPS_PER_FRAME = 600
+// Longest backlog we are willing to catch up on (1 game hour). Beyond that, e.g.
+// after the computer slept, the lost time is dropped as if the game was paused.
+const MAX_BACKLOG_SECONDS = 60 * 60
+
+export class GameClock {
+  private lastRealTime: number
+  private accumulator = 0 // game seconds not yet simulated
+
+  constructor(now: number) {
+    this.lastRealTime = now
+  }
+
+  /** Forget elapsed real time, e.g. when resuming from pause */
+  reset(now: number) {
+    this.lastRealTime = now
+    this.accumulator = 0
+  }
+
+  /** Number of fixed steps due at `now`; speed only changes how fast steps accrue */
+  consume(now: number, gameSpeed: number): number {
+    const realDeltaMs = Math.max(0, now - this.lastRealTime)
+    this.lastRealTime = now
+
+    this.accumulator = Math.min(
+      this.accumulator + realDeltaMs * GAME_SECONDS_PER_REAL_MS * gameSpeed,
+      MAX_BACKLOG_SECONDS,
+    )
+
+    const steps = Math.min(Math.floor(this.accumulator / FIXED_STEP_SECONDS), MAX_STEPS_PER_FRAME)
+    this.accumulator -= steps * FIXED_STEP_SECONDS
+    return steps
+  }
+}
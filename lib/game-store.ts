@@ -1,911 +1,372 @@
 "use client"
 
-import { useSyncExternalStore, useCallback } from "react"
+import { useSyncExternalStore } from "react"
 import type {
   GameState,
   Building,
   Mission,
-  Vehicle,
   BuildingType,
-  MissionType,
+  BuildingSize,
   LatLng,
-  VehicleStatus,
   CityConfig,
+  GameSpeed,
+  MissionType,
+  DispatchPolicy,
+  BuildingUpgradeId,
 } from "./game-types"
-import { BUILDING_CONFIGS, MISSION_CONFIGS } from "./game-types"
-import { getTrafficDensity, tickTraffic } from "./traffic-manager"
-import { getRoute, interpolateRoute } from "./route-service" 
+import { CAR_COLORS, PACKED_CAR_FIELDS } from "./traffic-manager"
+import type { RoutingConfig } from "./routing-config"
+import { readRoutingConfig, writeRoutingConfig } from "./routing-config"
+import type { SaveSlotInfo } from "./save-game"
+import {
+  AUTOSAVE_INTERVAL_MS,
+  AUTOSAVE_SLOT,
+  deleteSaveSlot,
+  listSaveSlots,
+  readSaveSlot,
+  writeSaveSlot,
+} from "./save-game"
+import type { GameCommand } from "./replay"
+import { downloadReplay } from "./replay"
+import type { DispatchCandidate } from "./simulation-engine"
+import { INITIAL_STATE } from "./simulation-engine"
+import type {
+  SimulationCalls,
+  SimulationMessage,
+  SimulationMethod,
+  SimulationRequest,
+  UiPatch,
+  ViewBounds,
+} from "./simulation-protocol"
+import { applyStateDiff } from "./simulation-protocol"
+
+// The store is a thin React adapter around the simulation, which runs in a
+// Web Worker (simulation-worker.ts) so it never holds up the map. This module
+// keeps a copy of the game state from the worker's diffs and owns the
+// browser-only side of things: saves, autosave and downloads.
+let state: GameState = INITIAL_STATE
+const listeners = new Set<() => void>()
 
-let nextId = 1
-function genId(prefix: string) {
-  return `${prefix}-${nextId++}`
+function notify() {
+  for (const listener of listeners) listener()
 }
 
-const INITIAL_STATE: GameState = {
-  money: 50000,
-  population: 0,
-  buildings: [],
-  missions: [],
-  vehicles: [],
-  gameTime: Date.now(),
-  gameStartTime: Date.now(),
-  gameSpeed: 1,
-  isPaused: true,
-  gameOver: false,
-  selectedBuilding: null,
-  selectedMission: null,
-  placingBuilding: null,
-  managingBuilding: null,
-  missionsCompleted: 0,
-  missionsFailed: 0,
-  city: null,
-  newMissions: [],
-  unreadMissionCount: 0,
-}
+// --- Worker connection ---
 
-// Tracks the real wall-clock time of the last tick so we can compute deltas
-let lastTickRealTime = Date.now()
-// Tracks the real wall-clock time of the last time update for smooth display
-let lastTimeUpdateRealTime = Date.now()
+let worker: Worker | null = null
+let nextCallId = 0
+const pendingCalls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>()
 
-// --- Mission auto-spawn timer (independent of UI/tab state) ---
-let missionSpawnTimer: ReturnType<typeof setTimeout> | null = null
-let nextMissionSpawnTime = 0 // wall-clock ms when next mission should spawn
+// Started on first use, in the browser only
+function connect(): Worker | null {
+  if (worker || typeof window === "undefined") return worker
+  worker = new Worker(new URL("./simulation-worker.ts", import.meta.url), { type: "module" })
+  worker.addEventListener("message", (event: MessageEvent<SimulationMessage>) => receive(event.data))
+  // Routing settings are per browser, in localStorage the worker can't read
+  void call("setRoutingConfig", readRoutingConfig())
+  return worker
+}
 
-let state: GameState = { ...INITIAL_STATE }
-const listeners = new Set<() => void>()
+function call<M extends SimulationMethod>(
+  method: M,
+  ...args: Parameters<SimulationCalls[M]>
+): Promise<ReturnType<SimulationCalls[M]>> {
+  const target = connect()
+  if (!target) return Promise.reject(new Error("The simulation only runs in the browser"))
+  const id = nextCallId++
+  return new Promise((resolve, reject) => {
+    pendingCalls.set(id, { resolve: resolve as (value: unknown) => void, reject })
+    target.postMessage({ id, method, args } as SimulationRequest)
+  })
+}
 
-function emit() {
-  for (const l of listeners) l()
+// Fire-and-forget calls; the state they change comes back as a diff
+function send<M extends SimulationMethod>(method: M, ...args: Parameters<SimulationCalls[M]>) {
+  call(method, ...args).catch((err) => console.error(`Simulation call ${method} failed:`, err))
 }
+
+function receive(message: SimulationMessage) {
+  switch (message.kind) {
+    case "state":
+      state = message.state
+      stateVersion++
+      notify()
+      return
+    case "diff":
+      state = applyStateDiff(state, message.diff)
+      stateVersion++
+      if (message.diff.missions) pruneDispatchQueries()
+      notify()
+      return
+    case "traffic":
+      trafficCars = unpackCars(message.cars)
+      return
+    case "result": {
+      const pending = pendingCalls.get(message.id)
+      pendingCalls.delete(message.id)
+      if (message.error !== undefined) pending?.reject(new Error(message.error))
+      else pending?.resolve(message.value)
+    }
+  }
+}
+
 function getState(): GameState {
   return state
 }
 function subscribe(listener: () => void) {
+  connect()
   listeners.add(listener)
-  return () => listeners.delete(listener)
+  return () => {
+    listeners.delete(listener)
+  }
 }
 
 export function useGameState(): GameState {
   return useSyncExternalStore(subscribe, getState, getState)
 }
 
-// --- Pending route fetches: track in-flight route requests to merge into state safely ---
-const pendingRoutes = new Map<string, Promise<LatLng[]>>()
+// --- Dispatch queries ---
 
-// Safely apply a resolved route to the current state snapshot.
-// Because `state` may have been replaced by tick() in the meantime, we read
-// the *current* state at resolution time, not the stale closure.
-function applyRouteToVehicle(vehicleId: string, routeCoords: LatLng[]) {
-  const nextVehicles = state.vehicles.map((v) =>
-    v.id === vehicleId ? { ...v, routeCoords, routeIndex: 0 } : v
-  )
+// The mission panel asks for dispatch previews while it renders, so answers
+// are cached: a query returns the last answer at once and asks the worker
+// again once the state has moved on and the answer is a while old. Answers
+// have their own subscribers (the mission panel), told only when one changes.
+const QUERY_REFRESH_MS = 1000
 
-  state = {
-    ...state,
-    vehicles: nextVehicles,
-  }
+let stateVersion = 0
+const queryAnswers = new Map<string, { version: number; at: number; candidates: DispatchCandidate[] }>()
+const queriesInFlight = new Set<string>()
+let queryVersion = 0
+const queryListeners = new Set<() => void>()
 
-  pendingRoutes.delete(vehicleId)
-  emit()
+function notifyQueries() {
+  queryVersion++
+  for (const listener of queryListeners) listener()
 }
 
-// --- OSRM routing ---
-// Replaced by route-service.ts with improved throttling, caching, and circuit breaker
+function sameCandidates(a: DispatchCandidate[], b: DispatchCandidate[]) {
+  return (
+    a.length === b.length &&
+    a.every((c, i) => (Object.keys(c) as (keyof DispatchCandidate)[]).every((key) => c[key] === b[i][key]))
+  )
+}
 
-// Helper: sync buildings[].vehicles with state.vehicles after each update
-function syncBuildingsWithVehicles(nextVehicles: Vehicle[]) {
-  const byBuilding = new Map<string, Vehicle[]>()
-  for (const v of nextVehicles) {
-    const arr = byBuilding.get(v.buildingId) ?? []
-    arr.push(v)
-    byBuilding.set(v.buildingId, arr)
+function dispatchQuery(method: "previewDispatch" | "dispatchCandidates", missionId: string): DispatchCandidate[] {
+  const key = `${method}|${missionId}`
+  const answer = queryAnswers.get(key)
+  const stale = !answer || (answer.version < stateVersion && Date.now() - answer.at >= QUERY_REFRESH_MS)
+  if (stale && !queriesInFlight.has(key)) {
+    const version = stateVersion
+    queriesInFlight.add(key)
+    call(method, missionId)
+      .then((candidates) => {
+        const previous = queryAnswers.get(key)?.candidates
+        const same = previous !== undefined && sameCandidates(previous, candidates)
+        // An unchanged answer keeps its identity, and nobody re-renders
+        queryAnswers.set(key, { version, at: Date.now(), candidates: same ? previous : candidates })
+        if (!same) notifyQueries()
+      })
+      .catch((err) => console.error(`Simulation call ${method} failed:`, err))
+      .finally(() => queriesInFlight.delete(key))
   }
-
-  return state.buildings.map((b) => ({
-    ...b,
-    vehicles: (byBuilding.get(b.id) ?? []).map(v => ({ ...v })),
-  }))
+  return answer?.candidates ?? []
 }
 
-// Vehicle movement: advance along routeCoords, scaled by game speed.
-// TARGET_TICKS_TO_COMPLETE sets how many ticks (at 200ms each) a full route takes at 1x.
-// Higher value = slower, more relaxed movement.
-const TARGET_TICKS_TO_COMPLETE = 600
-
-function moveVehicleAlongRoute(v: Vehicle, gameSpeed: number): Vehicle {
-  if (v.routeCoords.length === 0 || v.routeIndex >= v.routeCoords.length - 1) {
-    return v
+// Calls that are over are not asked about again
+function pruneDispatchQueries() {
+  for (const key of queryAnswers.keys()) {
+    const missionId = key.slice(key.indexOf("|") + 1)
+    const status = state.missions.find((m) => m.id === missionId)?.status
+    if (status !== "pending" && status !== "dispatched") queryAnswers.delete(key)
   }
+}
 
-  // Base speed: route points per tick
-  const basePointsPerTick = Math.max(0.5, v.routeCoords.length / TARGET_TICKS_TO_COMPLETE)
-  
-  // Detect road type by looking at the angle change between route segments.
-  // Straight segments = highway (fast), sharp turns = junctions (slow).
-  const idx = Math.floor(v.routeIndex)
-  let roadFactor = 1.0
-  if (idx >= 1 && idx < v.routeCoords.length - 1) {
-    const prev = v.routeCoords[idx - 1]
-    const curr = v.routeCoords[idx]
-    const next = v.routeCoords[Math.min(idx + 1, v.routeCoords.length - 1)]
-    // Angle between prev->curr and curr->next
-    const a1 = Math.atan2(curr.lng - prev.lng, curr.lat - prev.lat)
-    const a2 = Math.atan2(next.lng - curr.lng, next.lat - curr.lat)
-    let angleDiff = Math.abs(a2 - a1)
-    if (angleDiff > Math.PI) angleDiff = 2 * Math.PI - angleDiff
-    // Sharp turn (> 45deg) = junction/corner -> slow down
-    if (angleDiff > Math.PI / 4) {
-      roadFactor = 0.35 // Very slow at sharp corners
-    } else if (angleDiff > Math.PI / 8) {
-      roadFactor = 0.6  // Moderate turn
-    } else {
-      // Check segment length to detect highway vs residential
-      const segDist = Math.sqrt(
-        (next.lat - curr.lat) ** 2 + (next.lng - curr.lng) ** 2
-      )
-      // Long straight segments = highway
-      roadFactor = segDist > 0.0005 ? 1.2 : 0.85
-    }
-  }
-  
-  // Small random variation for realistic driving (97-103%)
-  const randomVariation = 0.97 + Math.random() * 0.06
-  
-  // Braking near destination
-  const remainingDistance = v.routeCoords.length - 1 - v.routeIndex
-  const brakingFactor = remainingDistance < 15 ? 0.25 + (remainingDistance / 15) * 0.75 : 1.0
-
-  // Traffic density slowdown: up to 40% slower in heavy traffic areas
-  const trafficDensity = getTrafficDensity(v.position.lat, v.position.lng)
-  const trafficFactor = 1.0 - (trafficDensity * 0.4) // 60-100% speed
-  
-  const pointsToMove = basePointsPerTick * gameSpeed * roadFactor * randomVariation * brakingFactor * trafficFactor
-  
-  // Clamp movement for smooth, relaxed feel
-  const maxMove = basePointsPerTick * 1.3 * gameSpeed
-  const clampedMove = Math.min(pointsToMove, maxMove)
-  const clampedIndex = Math.min(v.routeIndex + clampedMove, v.routeCoords.length - 1)
-  
-  // Floor the index to access valid array positions; keep fractional for smooth accumulation
-  const flooredIdx = Math.floor(clampedIndex)
-  const nextIdx = Math.min(flooredIdx + 1, v.routeCoords.length - 1)
-  const frac = clampedIndex - flooredIdx
-
-  // Interpolate between the two closest route points for smooth movement
-  const p0 = v.routeCoords[flooredIdx]
-  const p1 = v.routeCoords[nextIdx]
-  const pos = {
-    lat: p0.lat + (p1.lat - p0.lat) * frac,
-    lng: p0.lng + (p1.lng - p0.lng) * frac,
-  }
+function clearDispatchQueries() {
+  queryAnswers.clear()
+  notifyQueries()
+}
 
-  return {
-    ...v,
-    position: pos,
-    routeIndex: clampedIndex,
+function subscribeQueries(listener: () => void) {
+  queryListeners.add(listener)
+  return () => {
+    queryListeners.delete(listener)
   }
 }
 
-// Generate mission positions that cluster near the city center and player buildings.
-// Uses simple lat/lng offsets (degrees) to stay within visible map area.
-// ~0.01 degree ~ 1.1 km at these latitudes.
-function smartMissionPosition(city: CityConfig, _missionType: MissionType, buildings: Building[]): LatLng {
-  const center: LatLng = city.center
-
-  // Half-span of the city bounds (in degrees) - used to clamp positions
-  const latSpan = (city.bounds.north - city.bounds.south) / 2
-  const lngSpan = (city.bounds.east - city.bounds.west) / 2
-
-  // 80% chance to spawn near an existing building (within ~0.8-1.2 km)
-  if (buildings.length > 0 && Math.random() < 0.8) {
-    const building = buildings[Math.floor(Math.random() * buildings.length)]
-    const offsetLat = (Math.random() - 0.5) * 0.02 // +/- ~1.1 km
-    const offsetLng = (Math.random() - 0.5) * 0.025
-    return clampToCity(
-      { lat: building.position.lat + offsetLat, lng: building.position.lng + offsetLng },
-      center,
-      latSpan,
-      lngSpan,
-    )
-  }
+function getQueryVersion() {
+  return queryVersion
+}
 
-  // 20% fallback: spawn within a tight radius around city center (~1.5 km)
-  const offsetLat = (Math.random() - 0.5) * latSpan * 1.2
-  const offsetLng = (Math.random() - 0.5) * lngSpan * 1.2
-  return clampToCity(
-    { lat: center.lat + offsetLat, lng: center.lng + offsetLng },
-    center,
-    latSpan,
-    lngSpan,
-  )
+const dispatchQueries = {
+  previewDispatch: (missionId: string) => dispatchQuery("previewDispatch", missionId),
+  dispatchCandidates: (missionId: string) => dispatchQuery("dispatchCandidates", missionId),
 }
 
-// Clamp a position so it never drifts outside the visible city bounds
-function clampToCity(pos: LatLng, center: LatLng, latSpan: number, lngSpan: number): LatLng {
-  return {
-    lat: Math.max(center.lat - latSpan, Math.min(center.lat + latSpan, pos.lat)),
-    lng: Math.max(center.lng - lngSpan, Math.min(center.lng + lngSpan, pos.lng)),
-  }
+/** Dispatch previews and candidates; re-renders only when an answer changes */
+export function useDispatchQueries() {
+  useSyncExternalStore(subscribeQueries, getQueryVersion, getQueryVersion)
+  return dispatchQueries
 }
 
-// --- Internal mission generation (called by auto-spawn timer and manual trigger) ---
-function internalGenerateMission() {
-  if (!state.city || state.isPaused || state.gameOver) return
-
-  // Check current active missions to ensure we don't exceed 5
-  const activeMissions = state.missions.filter(
-    (m) => m.status === "pending" || m.status === "dispatched"
-  ).length
-  if (activeMissions >= 5) return
-
-  const types: MissionType[] = ["fire", "traffic-accident", "medical-emergency", "crime", "infrastructure"]
-  const type = types[Math.floor(Math.random() * types.length)]
-  const config = MISSION_CONFIGS[type]
-  const titleIndex = Math.floor(Math.random() * config.titles.length)
-
-  const position = smartMissionPosition(state.city, type, state.buildings)
-
-  const mission: Mission = {
-    id: genId("msn"),
-    type,
-    title: config.titles[titleIndex],
-    description: config.descriptions[titleIndex],
-    position,
-    status: "pending",
-    reward: config.baseReward + Math.floor(Math.random() * 500),
-    penalty: config.basePenalty + Math.floor(Math.random() * 200),
-    timeLimit: config.baseTimeLimit,
-    timeRemaining: config.baseTimeLimit,
-    requiredBuildings: config.requiredBuildings,
-    dispatchedVehicles: [],
-    workDuration: config.workDuration,
-    createdAt: state.gameTime,
-  }
+// --- NPC traffic ---
 
-  state = { 
-    ...state, 
-    missions: [...state.missions, mission],
-    newMissions: [...state.newMissions, mission],
-    unreadMissionCount: state.unreadMissionCount + 1,
-  }
-  emit()
+// Cars from the worker's last traffic tick, for the map to draw
+export interface TrafficCarView {
+  lat: number
+  lng: number
+  heading: number
+  yieldOffset: number
+  color: string
 }
 
-// --- Auto-spawn scheduler: runs independently, uses setTimeout chain ---
-// Each spawn schedules the next with a random delay (30min-3h game time, scaled by speed).
-// This runs inside the store module itself so it is independent of which UI tab is open.
-function scheduleNextMissionSpawn() {
-  if (missionSpawnTimer) {
-    clearTimeout(missionSpawnTimer)
-    missionSpawnTimer = null
+let trafficCars: TrafficCarView[] = []
+
+function unpackCars(packed: Float64Array): TrafficCarView[] {
+  const cars: TrafficCarView[] = []
+  for (let i = 0; i < packed.length; i += PACKED_CAR_FIELDS) {
+    cars.push({
+      lat: packed[i],
+      lng: packed[i + 1],
+      heading: packed[i + 2],
+      yieldOffset: packed[i + 3],
+      color: CAR_COLORS[packed[i + 4]] ?? CAR_COLORS[0],
+    })
   }
+  return cars
+}
 
-  if (state.isPaused || state.gameOver || !state.city) return
+/** The NPC cars to draw; the traffic itself runs in the worker */
+export function getCars(): ReadonlyArray<TrafficCarView> {
+  return trafficCars
+}
 
-  // Random delay between 30 minutes and 3 hours (in game time)
-  // 30min game time = 30s real time, 3h game time = 180s real time at 1x speed
-  const baseDelay = 30000 + Math.random() * 150000 // 30s to 3min in real ms
-  const delay = baseDelay / state.gameSpeed
-  nextMissionSpawnTime = Date.now() + delay
+export function startTraffic(seed: string) {
+  send("startTraffic", seed)
+}
 
-  missionSpawnTimer = setTimeout(() => {
-    missionSpawnTimer = null
-    // Only spawn if game is still running
-    if (!state.isPaused && !state.gameOver && state.city) {
-      internalGenerateMission()
-      // Chain: schedule the next spawn
-      scheduleNextMissionSpawn()
-    }
-  }, delay)
+export function stopTraffic() {
+  trafficCars = []
+  send("stopTraffic")
 }
 
-function stopMissionSpawnTimer() {
-  if (missionSpawnTimer) {
-    clearTimeout(missionSpawnTimer)
-    missionSpawnTimer = null
-  }
+export function updateViewBounds(bounds: ViewBounds) {
+  send("updateViewBounds", bounds)
 }
 
-export function useGameActions() {
-  const placeBuilding = useCallback(
-    (type: BuildingType, position: LatLng, size: "small" | "large" = "small") => {
-      const config = BUILDING_CONFIGS[type]
-      const cost = size === "small" ? config.smallCost : config.largeCost
-      if (state.money < cost) return false
-
-      const buildingId = genId("bldg")
-
-      const vehicles: Vehicle[] = config.vehicles.flatMap((v) => {
-        const count = size === "small" ? Math.ceil(v.count / 2) : v.count
-        return Array.from({ length: count }, () => ({
-          id: genId("veh"),
-          type: v.type,
-          buildingId,
-          status: "idle" as VehicleStatus,
-          position: { ...position },
-          routeCoords: [],
-          routeIndex: 0,
-          workTimeRemaining: 0,
-        }))
-      })
+// --- Save / load ---
 
-      const building: Building = {
-        id: buildingId,
-        type,
-        size,
-        level: 1,
-        name: `${config.name} ${state.buildings.filter((b) => b.type === type).length + 1}`,
-        position,
-        vehicles,
-        staff: size === "small" ? 5 : 12,
-        maxStaff: size === "small" ? 8 : 20,
-        upgrades: [],
-        cost,
-        efficiency: size === "small" ? 0.7 : 1,
-      }
-
-      state = {
-        ...state,
-        money: state.money - cost,
-        buildings: [...state.buildings, building],
-        vehicles: [...state.vehicles, ...vehicles],
-        placingBuilding: null,
-      }
-      emit()
-      return true
-    },
-    [],
-  )
+async function internalSaveGame(slot: string): Promise<boolean> {
+  const snapshot = await call("toSnapshot")
+  if (!snapshot) return false
+  return writeSaveSlot(slot, snapshot)
+}
 
-  const upgradeBuilding = useCallback((buildingId: string) => {
-    const building = state.buildings.find((b) => b.id === buildingId)
-    if (!building) return false
-
-    const config = BUILDING_CONFIGS[building.type]
-    if (building.level >= config.maxLevel) return false
-    if (state.money < config.upgradeCost * building.level) return false
-
-    const upgradeCost = config.upgradeCost * building.level
-    const newSize = building.level >= 2 ? "large" : building.size === "small" ? "large" : building.size
-
-    const newVehicles: Vehicle[] = config.vehicles.flatMap((v) =>
-      Array.from({ length: 1 }, () => ({
-        id: genId("veh"),
-        type: v.type,
-        buildingId,
-        status: "idle" as VehicleStatus,
-        position: { ...building.position },
-        routeCoords: [],
-        routeIndex: 0,
-        workTimeRemaining: 0,
-      })),
-    )
-
-    state = {
-      ...state,
-      money: state.money - upgradeCost,
-      buildings: state.buildings.map((b) =>
-        b.id === buildingId
-          ? {
-              ...b,
-              level: b.level + 1,
-              size: newSize as "small" | "large",
-              maxStaff: b.maxStaff + 5,
-              staff: Math.min(b.staff + 2, b.maxStaff + 5),
-              vehicles: [...b.vehicles, ...newVehicles],
-              efficiency: Math.min(1, b.efficiency + 0.15),
-            }
-          : b,
-      ),
-      vehicles: [...state.vehicles, ...newVehicles],
-      managingBuilding:
-        state.managingBuilding?.id === buildingId
-          ? {
-              ...state.managingBuilding,
-              level: state.managingBuilding.level + 1,
-              size: newSize as "small" | "large",
-              maxStaff: state.managingBuilding.maxStaff + 5,
-              staff: Math.min(state.managingBuilding.staff + 2, state.managingBuilding.maxStaff + 5),
-              vehicles: [...state.managingBuilding.vehicles, ...newVehicles],
-              efficiency: Math.min(1, state.managingBuilding.efficiency + 0.15),
-            }
-          : state.managingBuilding,
-    }
-    emit()
-    return true
-  }, [])
-
-  const hireStaff = useCallback((buildingId: string) => {
-    const building = state.buildings.find((b) => b.id === buildingId)
-    if (!building) return false
-
-    const config = BUILDING_CONFIGS[building.type]
-    if (building.staff >= building.maxStaff) return false
-    if (state.money < config.staffCost) return false
-
-    state = {
-      ...state,
-      money: state.money - config.staffCost,
-      buildings: state.buildings.map((b) =>
-        b.id === buildingId
-          ? { ...b, staff: b.staff + 1, efficiency: Math.min(1, b.efficiency + 0.05) }
-          : b,
-      ),
-      managingBuilding:
-        state.managingBuilding?.id === buildingId
-          ? {
-              ...state.managingBuilding,
-              staff: state.managingBuilding.staff + 1,
-              efficiency: Math.min(1, state.managingBuilding.efficiency + 0.05),
-            }
-          : state.managingBuilding,
-    }
-    emit()
-    return true
-  }, [])
-
-  const purchaseVehicle = useCallback((buildingId: string) => {
-    const building = state.buildings.find((b) => b.id === buildingId)
-    if (!building) return false
-
-    const config = BUILDING_CONFIGS[building.type]
-    if (state.money < config.vehicleCost) return false
-
-    const vehicleType = config.vehicles[0]?.type || "Vehicle"
-    const newVehicle: Vehicle = {
-      id: genId("veh"),
-      type: vehicleType,
-      buildingId,
-      status: "idle",
-      position: { ...building.position },
-      routeCoords: [],
-      routeIndex: 0,
-      workTimeRemaining: 0,
-    }
+// --- Autosave timer ---
+let autosaveTimer: ReturnType<typeof setInterval> | null = null
 
-    state = {
-      ...state,
-      money: state.money - config.vehicleCost,
-      buildings: state.buildings.map((b) =>
-        b.id === buildingId ? { ...b, vehicles: [...b.vehicles, newVehicle] } : b,
-      ),
-      vehicles: [...state.vehicles, newVehicle],
-      managingBuilding:
-        state.managingBuilding?.id === buildingId
-          ? { ...state.managingBuilding, vehicles: [...state.managingBuilding.vehicles, newVehicle] }
-          : state.managingBuilding,
-    }
-    emit()
-    return true
-  }, [])
-
-  const sellBuilding = useCallback((buildingId: string) => {
-    const building = state.buildings.find((b) => b.id === buildingId)
-    if (!building) return
-
-    const refund = Math.floor(building.cost * 0.5)
-    const vehicleIds = new Set(building.vehicles.map((v) => v.id))
-
-    state = {
-      ...state,
-      money: state.money + refund,
-      buildings: state.buildings.filter((b) => b.id !== buildingId),
-      vehicles: state.vehicles.filter((v) => !vehicleIds.has(v.id)),
-      selectedBuilding: state.selectedBuilding?.id === buildingId ? null : state.selectedBuilding,
-      managingBuilding: state.managingBuilding?.id === buildingId ? null : state.managingBuilding,
-    }
-    emit()
-  }, [])
-
-  const dispatchVehicle = useCallback((missionId: string) => {
-    const mission = state.missions.find((m) => m.id === missionId)
-    if (!mission || mission.status !== "pending") return
-
-    const requiredTypes = mission.requiredBuildings
-    const availableVehicles: Vehicle[] = []
-
-    for (const bType of requiredTypes) {
-      const buildingsOfType = state.buildings.filter((b) => b.type === bType)
-      for (const bld of buildingsOfType) {
-        const idle = state.vehicles.find(
-          (v) => v.buildingId === bld.id && v.status === "idle" && !availableVehicles.includes(v),
-        )
-        if (idle) {
-          availableVehicles.push(idle)
-          break
-        }
-      }
+function startAutosave() {
+  stopAutosave()
+  autosaveTimer = setInterval(() => {
+    if (!state.isPaused && !state.gameOver && state.city) {
+      void internalSaveGame(AUTOSAVE_SLOT)
     }
+  }, AUTOSAVE_INTERVAL_MS)
+}
 
-    if (availableVehicles.length === 0) return
-
-    const vehicleIds = availableVehicles.map((v) => v.id)
+function stopAutosave() {
+  if (autosaveTimer) {
+    clearInterval(autosaveTimer)
+    autosaveTimer = null
+  }
+}
 
-    // Immediately give dispatched vehicles a "preparing" status so they wait
-    // for the OSRM route to load before starting to move
-    const immediateVehicles = availableVehicles.map((veh) => ({
-      ...veh,
-      status: "preparing" as VehicleStatus,
-      missionId: mission.id,
-      preparationTimeRemaining: 10, // 10 seconds preparation time for OSRM
-      routeCoords: [], // Empty route initially
-      routeIndex: 0,
-    }))
+// --- Actions ---
 
-    const nextVehicles = state.vehicles.map((v) => {
-      const updated = immediateVehicles.find((iv) => iv.id === v.id)
-      return updated || v
-    })
+// Apply a UI-only change (selection, placement mode) to the current state
+function patchState(patch: UiPatch) {
+  send("patch", patch)
+}
 
-    state = {
-      ...state,
-      missions: state.missions.map((m) =>
-        m.id === missionId
-          ? { ...m, status: "dispatched" as const, dispatchedVehicles: vehicleIds }
-          : m,
-      ),
-      vehicles: nextVehicles,
-    }
-    emit()
-
-    // Fetch real OSRM road routes asynchronously; once resolved, set status to "dispatched"
-    // and start moving with the actual road geometry ONLY when route is ready
-    for (const veh of availableVehicles) {
-      const routePromise = getRoute(veh.position, mission.position).then((routeCoords: LatLng[]) => {
-        // Read current vehicle state to preserve progress
-        const currentVeh = state.vehicles.find((v) => v.id === veh.id)
-        if (!currentVeh || currentVeh.status !== "preparing") {
-          pendingRoutes.delete(veh.id)
-          return routeCoords
-        }
-
-        // Create nextVehicles first for atomic state update
-        const nextVehicles = state.vehicles.map((v) =>
-          v.id === veh.id
-            ? {
-                ...v,
-                status: "dispatched" as VehicleStatus,
-                routeCoords,
-                routeIndex: 0,
-                preparationTimeRemaining: undefined,
-              }
-            : v,
-        )
-
-        state = {
-          ...state,
-          vehicles: nextVehicles,
-          buildings: syncBuildingsWithVehicles(nextVehicles),
-        }
-        pendingRoutes.delete(veh.id)
-        emit()
-        
-        return routeCoords
-      })
-      pendingRoutes.set(veh.id, routePromise)
-    }
-  }, [])
-
-  const generateMission = useCallback(() => {
-    internalGenerateMission()
-  }, [])
-
-  const tick = useCallback(() => {
-    if (state.isPaused || state.gameOver) return
-    
-    // Tick NPC traffic system
-    tickTraffic()
-
-    const now = Date.now()
-    const realDeltaMs = now - lastTickRealTime
-    lastTickRealTime = now
-    // Also sync the time-update clock so they don't diverge
-    lastTimeUpdateRealTime = now
-
-    // Game minutes elapsed this tick: realDeltaMs converted to seconds, then
-    // 1 real second = 1 game minute, multiplied by speed
-    const gameMinutesDelta = (realDeltaMs / 1000) * state.gameSpeed
-    const newGameTime = state.gameTime + gameMinutesDelta * 60000 // add as ms offset
-
-    let newMoney = state.money
-    let completed = state.missionsCompleted
-    let failed = state.missionsFailed
-
-    // --- Move vehicles (speed-scaled) ---
-    let anyVehicleMoved = false
-    let updatedVehicles = state.vehicles.map((v) => {
-      if (v.status === "preparing") {
-        // Handle preparation countdown - do NOT move until OSRM route is ready
-        const newPrepTime = (v.preparationTimeRemaining || 0) - gameMinutesDelta
-        if (newPrepTime <= 0) {
-          // Preparation time is up, but we wait for OSRM route before dispatching
-          return { ...v, preparationTimeRemaining: 0 }
-        }
-        return { ...v, preparationTimeRemaining: newPrepTime }
-      }
-      if (v.status === "dispatched") {
-        // Only move if we have a valid OSRM route
-        if (v.routeCoords.length === 0) return v
-        anyVehicleMoved = true
-        const moved = moveVehicleAlongRoute(v, state.gameSpeed)
-        if (moved.routeIndex >= moved.routeCoords.length - 1) {
-          const mission = state.missions.find((m) => m.id === v.missionId)
-          // Park offset: fan out vehicles around mission site (~20m apart)
-          const dispatchedToSameMission = state.vehicles.filter(
-            (vv) => vv.missionId === v.missionId && vv.id !== v.id && vv.status === "working"
-          ).length
-          const angle = (dispatchedToSameMission * Math.PI * 0.6) + (Math.PI * 0.25)
-          const parkDist = 0.00025 // ~25m offset
-          const parkedPos = {
-            lat: moved.position.lat + Math.cos(angle) * parkDist,
-            lng: moved.position.lng + Math.sin(angle) * parkDist,
-          }
-          return {
-            ...moved,
-            position: parkedPos,
-            status: "working" as VehicleStatus,
-            workTimeRemaining: mission?.workDuration ?? 8,
-          }
-        }
-        return moved
-      }
-
-      if (v.status === "working") {
-        // Work time decreases by game minutes elapsed this tick
-        const remaining = v.workTimeRemaining - gameMinutesDelta
-        if (remaining <= 0) {
-          const building = state.buildings.find((b) => b.id === v.buildingId)
-          if (building) {
-            // Give an immediate fallback route so vehicle starts returning instantly
-            const fallbackReturn = interpolateRoute(v.position, building.position)
-            // Also fetch real route in background
-            const returnPromise = getRoute(v.position, building.position).then((routeCoords: LatLng[]) => {
-              applyRouteToVehicle(v.id, routeCoords)
-              return routeCoords
-            })
-            pendingRoutes.set(v.id, returnPromise)
-
-            return {
-              ...v,
-              status: "returning" as VehicleStatus,
-              workTimeRemaining: 0,
-              routeCoords: fallbackReturn,
-              routeIndex: 0,
-            }
-          }
-          return { ...v, status: "idle" as VehicleStatus, workTimeRemaining: 0, routeCoords: [], routeIndex: 0 }
-        }
-        return { ...v, workTimeRemaining: remaining }
-      }
-
-      if (v.status === "returning") {
-        if (v.routeCoords.length === 0) return v
-        anyVehicleMoved = true
-        const moved = moveVehicleAlongRoute(v, state.gameSpeed)
-        if (moved.routeIndex >= moved.routeCoords.length - 1) {
-          const building = state.buildings.find((b) => b.id === v.buildingId)
-          return {
-            ...moved,
-            status: "idle" as VehicleStatus,
-            position: building ? { ...building.position } : moved.position,
-            routeCoords: [],
-            routeIndex: 0,
-            missionId: undefined,
-          }
-        }
-        return moved
-      }
-
-      return v
-    })
+// Everything that changes the simulation goes through the engine's execute(),
+// so it ends up in the replay log
+function execute(command: GameCommand) {
+  send("execute", command)
+}
 
-    // --- Update missions (delta-based) ---
-    const updatedMissions = state.missions
-      .map((m) => {
-        if (m.status === "completed" || m.status === "failed") return m
-
-        const newTime = Math.max(0, m.timeRemaining - gameMinutesDelta)
-
-        // Check if all dispatched vehicles finished working
-        if (m.status === "dispatched") {
-          const dispVehicles = updatedVehicles.filter((v) => v.missionId === m.id)
-          const allDone =
-            dispVehicles.length > 0 &&
-            dispVehicles.every((v) => v.status === "returning" || v.status === "idle")
-          if (allDone) {
-            newMoney += m.reward
-            completed++
-            return { ...m, status: "completed" as const, timeRemaining: newTime }
-          }
-        }
-
-        if (newTime <= 0) {
-          newMoney -= m.penalty
-          failed++
-          const failedVehIds = new Set(m.dispatchedVehicles)
-          updatedVehicles = updatedVehicles.map((v) => {
-            if (failedVehIds.has(v.id) && v.status !== "idle") {
-              const building = state.buildings.find((b) => b.id === v.buildingId)
-              if (building && (v.status === "dispatched" || v.status === "working")) {
-                // Give an immediate fallback route for return
-                const fallbackReturn = interpolateRoute(v.position, building.position)
-                const returnPromise = getRoute(v.position, building.position).then((routeCoords: LatLng[]) => {
-                  applyRouteToVehicle(v.id, routeCoords)
-                  return routeCoords
-                })
-                pendingRoutes.set(v.id, returnPromise)
-
-                return {
-                  ...v,
-                  status: "returning" as VehicleStatus,
-                  routeCoords: fallbackReturn,
-                  routeIndex: 0,
-                  workTimeRemaining: 0,
-                }
-              }
-            }
-            return v
-          })
-          return { ...m, status: "failed" as const, timeRemaining: 0 }
-        }
-
-        return { ...m, timeRemaining: newTime }
-      })
-      .filter((m) => {
-        if (m.status === "completed" || m.status === "failed") {
-          const age = state.gameTime - m.createdAt
-          return age < m.timeLimit + 20
-        }
-        return true
+const actions = {
+  placeBuilding: (type: BuildingType, position: LatLng, size: BuildingSize = "small") =>
+    execute({ type: "placeBuilding", buildingType: type, position, size }),
+  upgradeBuilding: (buildingId: string) => execute({ type: "upgradeBuilding", buildingId }),
+  buyUpgrade: (buildingId: string, upgrade: BuildingUpgradeId) =>
+    execute({ type: "buyUpgrade", buildingId, upgrade }),
+  hireStaff: (buildingId: string) => execute({ type: "hireStaff", buildingId }),
+  purchaseVehicle: (buildingId: string) => execute({ type: "purchaseVehicle", buildingId }),
+  sellBuilding: (buildingId: string) => execute({ type: "sellBuilding", buildingId }),
+  // Without `vehicleIds` the engine picks the fastest unit per required type
+  dispatchVehicle: (missionId: string, vehicleIds?: string[]) =>
+    execute({ type: "dispatchVehicle", missionId, vehicleIds }),
+  setDispatchPolicy: (missionType: MissionType, policy: DispatchPolicy) =>
+    execute({ type: "setDispatchPolicy", missionType, policy }),
+  recallVehicle: (vehicleId: string) => execute({ type: "recallVehicle", vehicleId }),
+  reassignVehicle: (vehicleId: string, missionId: string) =>
+    execute({ type: "reassignVehicle", vehicleId, missionId }),
+  generateMission: () => send("generateMission"),
+  // Only what this copy of the state has shown: calls that reach the worker
+  // in the meantime still get announced
+  clearNewMissions: () =>
+    send("clearNewMissions", state.newMissions.map((m) => m.id), state.unreadMissionCount),
+  markMissionsAsRead: () => send("markMissionsAsRead", state.unreadMissionCount),
+  dismissDisaster: (disasterId: string) => send("dismissDisaster", disasterId),
+  setPlacing: (type: BuildingType | null) => {
+    patchState({ placingBuilding: type })
+  },
+  selectBuilding: (building: Building | null) => {
+    patchState({ selectedBuildingId: building?.id ?? null, selectedMissionId: null })
+  },
+  selectMission: (mission: Mission | null) => {
+    patchState({ selectedMissionId: mission?.id ?? null, selectedBuildingId: null })
+  },
+  openBuildingManager: (building: Building | null) => patchState({ managingBuildingId: building?.id ?? null }),
+  togglePause: () => send("togglePause"),
+  setGameSpeed: (speed: GameSpeed) => execute({ type: "setGameSpeed", speed }),
+  setSeed: (seed: string) => send("setSeed", seed),
+  setCity: (city: CityConfig) => send("setCity", city),
+  startGame: () => {
+    clearDispatchQueries()
+    send("startGame")
+    startAutosave()
+  },
+  saveGame: (slot: string) => internalSaveGame(slot),
+  loadGame: (slot: string) => {
+    const snapshot = readSaveSlot(slot)
+    if (!snapshot) return false
+
+    clearDispatchQueries()
+    send("loadSnapshot", snapshot)
+    startAutosave()
+    return true
+  },
+  deleteSave: (slot: string) => deleteSaveSlot(slot),
+  getRoutingConfig: (): RoutingConfig => readRoutingConfig(),
+  setRoutingConfig: (config: RoutingConfig) => {
+    writeRoutingConfig(config)
+    send("setRoutingConfig", config)
+  },
+  exportReplay: () => {
+    call("getReplayLog")
+      .then((log) => {
+        if (log) downloadReplay(log)
       })
+      .catch((err) => console.error("Replay export failed:", err))
+  },
+  listSaves: (): SaveSlotInfo[] => listSaveSlots(),
+  resetGame: () => {
+    stopAutosave()
+    clearDispatchQueries()
+    send("resetGame")
+  },
+}
 
-    const isGameOver = newMoney < 0
-
-    if (isGameOver) {
-      stopMissionSpawnTimer()
-    }
-
-    // Sync buildings only when vehicle status/assignment changed (not just position)
-    // Compare vehicle statuses to detect structural changes vs mere movement
-    const vehicleStatusChanged = updatedVehicles.some((v, i) => {
-      const old = state.vehicles[i]
-      if (!old) return true
-      return v.status !== old.status || v.missionId !== old.missionId || v.buildingId !== old.buildingId
-    }) || updatedVehicles.length !== state.vehicles.length
-    const nextBuildings = vehicleStatusChanged ? syncBuildingsWithVehicles(updatedVehicles) : state.buildings
-
-    state = {
-      ...state,
-      money: newMoney,
-      missions: updatedMissions,
-      vehicles: updatedVehicles,
-      buildings: nextBuildings,
-      missionsCompleted: completed,
-      missionsFailed: failed,
-      gameTime: newGameTime,
-      gameOver: isGameOver,
-    }
-    emit()
-  }, [])
-
-  const updateTime = useCallback(() => {
-    // Delta-based time update: only advances by the real time elapsed since
-    // the last call, scaled by the *current* speed. This avoids jumps when
-    // switching speed modes because we never recompute the entire elapsed time.
-    if (!state.isPaused && !state.gameOver) {
-      const now = Date.now()
-      const realDeltaMs = now - lastTimeUpdateRealTime
-      lastTimeUpdateRealTime = now
-      const gameMinutesDelta = (realDeltaMs / 1000) * state.gameSpeed
-      const newGameTime = state.gameTime + gameMinutesDelta * 60000
-      state = { ...state, gameTime: newGameTime }
-      emit()
-    }
-  }, [])
-
-  const clearNewMissions = useCallback(() => {
-    state = { ...state, newMissions: [], unreadMissionCount: 0 }
-    emit()
-  }, [])
-
-  return {
-    placeBuilding,
-    upgradeBuilding,
-    hireStaff,
-    purchaseVehicle,
-    sellBuilding,
-    dispatchVehicle,
-    generateMission,
-    tick,
-    updateTime,
-    clearNewMissions,
-    markMissionsAsRead: () => {
-      state = { ...state, unreadMissionCount: 0 }
-      emit()
-    },
-    setPlacing: (type: BuildingType | null) => {
-      state = { ...state, placingBuilding: type }
-      emit()
-    },
-    selectBuilding: (building: Building | null) => {
-      state = { ...state, selectedBuilding: building, selectedMission: null }
-      emit()
-    },
-    selectMission: (mission: Mission | null) => {
-      state = { ...state, selectedMission: mission, selectedBuilding: null }
-      emit()
-    },
-    openBuildingManager: (building: Building | null) => {
-  if (building) {
-    const freshBuilding = state.buildings.find((b) => b.id === building.id) || building
-    const buildingVehicles = state.vehicles.filter((v) => v.buildingId === freshBuilding.id)
-
-    state = {
-      ...state,
-      managingBuilding: { ...freshBuilding, vehicles: buildingVehicles },
-    }
-  } else {
-    state = { ...state, managingBuilding: null }
-  }
-  emit()
-},
-    togglePause: () => {
-      const willUnpause = state.isPaused
-      if (willUnpause) {
-        // Resync clocks so the first tick/update doesn't include the paused duration
-        const now = Date.now()
-        lastTickRealTime = now
-        lastTimeUpdateRealTime = now
-      }
-      state = { ...state, isPaused: !state.isPaused }
-      emit()
-
-      // Start or stop the mission auto-spawn timer
-      if (willUnpause) {
-        scheduleNextMissionSpawn()
-      } else {
-        stopMissionSpawnTimer()
-      }
-    },
-    setGameSpeed: (speed: 1 | 2 | 3) => {
-      // Resync clocks so the speed change takes effect cleanly from this moment
-      const now = Date.now()
-      lastTickRealTime = now
-      lastTimeUpdateRealTime = now
-      state = { ...state, gameSpeed: speed }
-      emit()
-
-      // Reschedule mission spawn timer with new speed
-      if (!state.isPaused && !state.gameOver) {
-        scheduleNextMissionSpawn()
-      }
-    },
-    setCity: (city: CityConfig) => {
-      state = { ...state, city, population: city.population }
-      emit()
-    },
-    startGame: () => {
-      const now = Date.now()
-      lastTickRealTime = now
-      lastTimeUpdateRealTime = now
-      state = { 
-        ...state, 
-        gameTime: now, 
-        gameStartTime: now,
-        isPaused: false 
-      }
-      emit()
-
-      // Start mission auto-spawn timer immediately on game start
-      scheduleNextMissionSpawn()
-    },
-    resetGame: () => {
-      nextId = 1
-      stopMissionSpawnTimer()
-      pendingRoutes.clear()
-      state = { ...INITIAL_STATE, buildings: [], missions: [], vehicles: [], city: null, newMissions: [], unreadMissionCount: 0 }
-      emit()
-    }
-  }
+export function useGameActions() {
+  return actions
 }
@@ -17,10 +17,17 @@ export type MissionType =
   | "medical-emergency"
   | "crime"
   | "infrastructure"
+  | "fatality-recovery"
+
+export type MissionSeverity = "minor" | "moderate" | "major" | "critical"
 
 export type MissionStatus = "pending" | "dispatched" | "in-progress" | "completed" | "failed"
 
-export type VehicleStatus = "idle" | "preparing" | "dispatched" | "working" | "returning"
+export type VehicleStatus = "idle" | "preparing" | "dispatched" | "working" | "transporting" | "returning"
+
+export type PatientSeverity = "minor" | "serious" | "critical"
+
+export type PatientOutcome = "recovered" | "complications" | "lost"
 
 // Geographic position using lat/lng for Leaflet
 export interface LatLng {
@@ -41,6 +48,8 @@ export interface Building {
   upgrades: string[]
   cost: number
   efficiency: number
+  admissions?: number[] // hospitals, clinics and morgues: game time (ms) each occupied place frees up
+  outOfServiceUntil?: number // knocked out by a disaster: no unit leaves the station until then
 }
 
 export interface Vehicle {
@@ -51,9 +60,30 @@ export interface Vehicle {
   position: LatLng
   routeCoords: LatLng[] // full OSRM route coordinates
   routeIndex: number    // current index along routeCoords
+  routeSpeeds?: number[] // m/s per route segment; missing = default speed
+  eta?: number          // game time (ms) the vehicle should reach its destination
   missionId?: string
   workTimeRemaining: number
   preparationTimeRemaining?: number // Time remaining before starting to move
+  patient?: PatientTransport // on board while transporting
+  remains?: { missionId: string; count: number; facilityId: string } // morgue vans: fatalities on board
+}
+
+export interface Patient {
+  id: string
+  severity: PatientSeverity
+  facilityId?: string      // where they were taken
+  outcome?: PatientOutcome // set on admission, or "lost" when nobody could take them
+}
+
+// A patient in an ambulance: enough to settle the outcome after the call is gone
+export interface PatientTransport {
+  missionId: string
+  patientId: string
+  severity: PatientSeverity
+  calledAt: number   // game time of the call, for the golden window
+  facilityId: string
+  reward: number     // paid in full on recovery
 }
 
 export interface Mission {
@@ -67,12 +97,71 @@ export interface Mission {
   penalty: number
   timeLimit: number
   timeRemaining: number
-  requiredBuildings: BuildingType[]
+  requiredBuildings: BuildingType[] // units to send: the most each phase needs of every type
   dispatchedVehicles: string[]
-  workDuration: number
+  workDuration: number   // total on-scene minutes over all phases, fully resourced
+  phases: MissionPhase[]
+  phaseIndex: number     // current phase; phases.length once the work is done
+  phaseProgress: number  // game minutes of full-rate work done in the current phase
+  pressure: number       // 0-1, builds while the scene is under-resourced; escalates at 1
+  escalated: boolean
+  patients?: Patient[]   // medical calls: taken to a hospital or clinic once the scene is done
+  fatalities?: number    // fatality recovery: remains a morgue van takes away
+  zone?: string          // name of the city zone it came in from
+  disasterId?: string    // one of the linked incidents of a disaster
+  severity: MissionSeverity
+  targetResponse: number // game minutes from the call to the first unit on scene for a full reward
+  respondedAt?: number   // game time (ms) the first unit reached the scene
+  responseScore?: number // reward multiplier earned by the response time, set on completion
+  payout?: number        // what the scene paid on completion (patients pay later)
   createdAt: number
 }
 
+// One stage of on-scene work. `requiredBuildings` lists a unit per entry, so
+// a type can appear more than once when the phase needs several of them.
+export interface MissionPhase {
+  name: string
+  duration: number // game minutes with every required unit on scene
+  requiredBuildings: BuildingType[]
+}
+
+// What an incident turns into when left under-resourced for too long
+export interface MissionEscalation {
+  window: number // game minutes with nobody on scene before it escalates
+  title: string
+  description: string
+  rewardMultiplier: number
+  penaltyMultiplier: number
+  extraUnits: BuildingType[] // added to the current and every later phase
+  fatalityChance: number     // chance an escalated incident leaves a fatality even when resolved
+}
+
+// Opt-in auto-dispatch rules for one mission type
+export interface DispatchPolicy {
+  enabled: boolean
+  maxSeverity: MissionSeverity | null // more severe calls wait for the player; null = no limit
+  maxUnits: number           // units sent per call
+  stationIds: string[] | null // only send from these buildings; null = any station
+}
+
+export type DispatchPolicies = Partial<Record<MissionType, DispatchPolicy>>
+
+export const DEFAULT_DISPATCH_POLICY: DispatchPolicy = {
+  enabled: false,
+  maxSeverity: null,
+  maxUnits: 2,
+  stationIds: null,
+}
+
+// One automated decision, newest last in GameState.dispatchLog
+export interface DispatchLogEntry {
+  gameTime: number
+  missionId: string
+  missionTitle: string
+  outcome: "dispatched" | "held" | "waiting"
+  message: string
+}
+
 export interface CityConfig {
   id: string
   name: string
@@ -80,10 +169,35 @@ export interface CityConfig {
   center: LatLng
   zoom: number
   population: number
-  bounds: { north: number; south: number; east: number; west: number }
+  bounds: Bounds
+  timeZone: string // IANA zone the city's clock runs in, for time-of-day patterns
+}
+
+export interface Bounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export type ZoneKind = "residential" | "commercial" | "industrial" | "nightlife" | "highway"
+
+// Where incidents happen: districts are rectangles, highways are corridors
+// along a polyline
+export type CityZone =
+  | { kind: Exclude<ZoneKind, "highway">; name: string; bounds: Bounds }
+  | { kind: "highway"; name: string; path: LatLng[] }
+
+// Hours are local to the city; a window with from > to wraps past midnight
+export interface ZonePeak {
+  types: MissionType[]
+  from: number
+  to: number
+  multiplier: number
 }
 
 export interface GameState {
+  seed: string  // RNG seed: same seed + same commands = same session
   money: number
   population: number
   buildings: Building[]
@@ -91,18 +205,26 @@ export interface GameState {
   vehicles: Vehicle[]
   gameTime: number  // Current game time (real-time adjusted)
   gameStartTime: number  // When game was started (real timestamp)
+  nextMissionAt: number  // Game time (ms) when the next mission spawns
   gameSpeed: GameSpeed
   isPaused: boolean
   gameOver: boolean
-  selectedBuilding: Building | null
-  selectedMission: Mission | null
+  // UI selection by id; the UI looks the entities up in the lists above
+  selectedBuildingId: string | null
+  selectedMissionId: string | null
   placingBuilding: BuildingType | null
-  managingBuilding: Building | null
+  managingBuildingId: string | null
   missionsCompleted: number
   missionsFailed: number
+  patientOutcomes: Record<PatientOutcome, number>
+  weather: WeatherSpell[] // current spell first, then the forecast
+  disasters: Disaster[]   // the one under way, if any, and recent ones
+  roadClosures: RoadClosure[]
   city: CityConfig | null
   newMissions: Mission[] // Track newly spawned missions for notifications
   unreadMissionCount: number // Track unread missions for badge notification
+  dispatchPolicies: DispatchPolicies
+  dispatchLog: DispatchLogEntry[]
 }
 
 export const CITY_OPTIONS: CityConfig[] = [
@@ -114,6 +236,7 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 709000,
     bounds: { north: 59.935, south: 59.895, east: 10.795, west: 10.710 },
+    timeZone: "Europe/Oslo",
   },
   {
     id: "copenhagen",
@@ -123,6 +246,7 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 812000,
     bounds: { north: 55.695, south: 55.657, east: 12.610, west: 12.527 },
+    timeZone: "Europe/Copenhagen",
   },
   {
     id: "stockholm",
@@ -132,6 +256,7 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 990000,
     bounds: { north: 59.348, south: 59.310, east: 18.110, west: 18.028 },
+    timeZone: "Europe/Stockholm",
   },
   {
     id: "helsinki",
@@ -141,6 +266,7 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 670000,
     bounds: { north: 60.188, south: 60.152, east: 24.980, west: 24.897 },
+    timeZone: "Europe/Helsinki",
   },
   {
     id: "london",
@@ -150,6 +276,7 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 9000000,
     bounds: { north: 51.525, south: 51.490, east: -0.085, west: -0.170 },
+    timeZone: "Europe/London",
   },
   {
     id: "berlin",
@@ -159,9 +286,261 @@ export const CITY_OPTIONS: CityConfig[] = [
     zoom: 14,
     population: 3700000,
     bounds: { north: 52.538, south: 52.502, east: 13.448, west: 13.362 },
+    timeZone: "Europe/Berlin",
+  },
+]
+
+// Incident zones per city (by CityConfig.id). Each kind's likelihoods and
+// busy hours are in ZONE_PROFILES.
+export const CITY_ZONES: Record<string, CityZone[]> = {
+  oslo: [
+    { kind: "commercial", name: "Sentrum", bounds: { north: 59.918, south: 59.908, east: 10.755, west: 10.735 } },
+    { kind: "nightlife", name: "Grünerløkka", bounds: { north: 59.928, south: 59.918, east: 10.768, west: 10.752 } },
+    { kind: "residential", name: "Frogner", bounds: { north: 59.930, south: 59.915, east: 10.730, west: 10.712 } },
+    { kind: "residential", name: "Tøyen", bounds: { north: 59.918, south: 59.905, east: 10.790, west: 10.765 } },
+    { kind: "industrial", name: "Sydhavna", bounds: { north: 59.903, south: 59.896, east: 10.775, west: 10.755 } },
+    { kind: "highway", name: "E18", path: [{ lat: 59.909, lng: 10.712 }, { lat: 59.907, lng: 10.735 }, { lat: 59.905, lng: 10.760 }, { lat: 59.903, lng: 10.790 }] },
+    { kind: "highway", name: "Ring 2", path: [{ lat: 59.930, lng: 10.720 }, { lat: 59.932, lng: 10.750 }, { lat: 59.928, lng: 10.780 }] },
+  ],
+  copenhagen: [
+    { kind: "commercial", name: "Indre By", bounds: { north: 55.684, south: 55.675, east: 12.585, west: 12.565 } },
+    { kind: "nightlife", name: "Vesterbro", bounds: { north: 55.674, south: 55.665, east: 12.565, west: 12.548 } },
+    { kind: "residential", name: "Nørrebro", bounds: { north: 55.695, south: 55.684, east: 12.560, west: 12.540 } },
+    { kind: "residential", name: "Østerbro", bounds: { north: 55.695, south: 55.686, east: 12.595, west: 12.570 } },
+    { kind: "industrial", name: "Sydhavnen", bounds: { north: 55.665, south: 55.658, east: 12.555, west: 12.535 } },
+    { kind: "highway", name: "H.C. Andersens Boulevard", path: [{ lat: 55.668, lng: 12.573 }, { lat: 55.674, lng: 12.568 }, { lat: 55.680, lng: 12.562 }] },
+    { kind: "highway", name: "Åboulevard", path: [{ lat: 55.690, lng: 12.545 }, { lat: 55.680, lng: 12.555 }, { lat: 55.672, lng: 12.548 }] },
+  ],
+  stockholm: [
+    { kind: "commercial", name: "Norrmalm", bounds: { north: 59.340, south: 59.330, east: 18.075, west: 18.050 } },
+    { kind: "nightlife", name: "Södermalm", bounds: { north: 59.322, south: 59.312, east: 18.085, west: 18.055 } },
+    { kind: "residential", name: "Vasastan", bounds: { north: 59.347, south: 59.340, east: 18.060, west: 18.035 } },
+    { kind: "residential", name: "Östermalm", bounds: { north: 59.345, south: 59.334, east: 18.100, west: 18.075 } },
+    { kind: "industrial", name: "Hammarby", bounds: { north: 59.316, south: 59.310, east: 18.108, west: 18.085 } },
+    { kind: "highway", name: "Essingeleden", path: [{ lat: 59.345, lng: 18.030 }, { lat: 59.330, lng: 18.032 }, { lat: 59.315, lng: 18.035 }] },
+    { kind: "highway", name: "Centralbron", path: [{ lat: 59.335, lng: 18.062 }, { lat: 59.325, lng: 18.066 }, { lat: 59.316, lng: 18.070 }] },
+  ],
+  helsinki: [
+    { kind: "commercial", name: "Kluuvi", bounds: { north: 60.174, south: 60.166, east: 24.955, west: 24.935 } },
+    { kind: "nightlife", name: "Kallio", bounds: { north: 60.188, south: 60.178, east: 24.960, west: 24.940 } },
+    { kind: "residential", name: "Töölö", bounds: { north: 60.186, south: 60.172, east: 24.935, west: 24.910 } },
+    { kind: "residential", name: "Punavuori", bounds: { north: 60.164, south: 60.155, east: 24.950, west: 24.930 } },
+    { kind: "industrial", name: "Jätkäsaari", bounds: { north: 60.160, south: 60.153, east: 24.925, west: 24.900 } },
+    { kind: "highway", name: "Mannerheimintie", path: [{ lat: 60.187, lng: 24.915 }, { lat: 60.178, lng: 24.925 }, { lat: 60.169, lng: 24.937 }] },
+    { kind: "highway", name: "Hämeentie", path: [{ lat: 60.188, lng: 24.955 }, { lat: 60.178, lng: 24.950 }, { lat: 60.171, lng: 24.955 }] },
+  ],
+  london: [
+    { kind: "commercial", name: "The City", bounds: { north: 51.520, south: 51.510, east: -0.086, west: -0.105 } },
+    { kind: "commercial", name: "West End", bounds: { north: 51.518, south: 51.508, east: -0.125, west: -0.145 } },
+    { kind: "nightlife", name: "Soho", bounds: { north: 51.516, south: 51.510, east: -0.128, west: -0.140 } },
+    { kind: "residential", name: "Pimlico", bounds: { north: 51.497, south: 51.491, east: -0.130, west: -0.150 } },
+    { kind: "residential", name: "Bloomsbury", bounds: { north: 51.525, south: 51.518, east: -0.115, west: -0.135 } },
+    { kind: "industrial", name: "Bankside", bounds: { north: 51.506, south: 51.498, east: -0.090, west: -0.110 } },
+    { kind: "highway", name: "Embankment", path: [{ lat: 51.495, lng: -0.165 }, { lat: 51.500, lng: -0.135 }, { lat: 51.507, lng: -0.122 }, { lat: 51.510, lng: -0.100 }] },
+    { kind: "highway", name: "Euston Road", path: [{ lat: 51.524, lng: -0.165 }, { lat: 51.525, lng: -0.135 }, { lat: 51.524, lng: -0.105 }] },
+  ],
+  berlin: [
+    { kind: "commercial", name: "Mitte", bounds: { north: 52.525, south: 52.515, east: 13.410, west: 13.385 } },
+    { kind: "nightlife", name: "Friedrichshain", bounds: { north: 52.515, south: 52.505, east: 13.447, west: 13.430 } },
+    { kind: "residential", name: "Prenzlauer Berg", bounds: { north: 52.537, south: 52.528, east: 13.430, west: 13.405 } },
+    { kind: "residential", name: "Kreuzberg", bounds: { north: 52.510, south: 52.503, east: 13.425, west: 13.395 } },
+    { kind: "industrial", name: "Moabit", bounds: { north: 52.533, south: 52.523, east: 13.380, west: 13.363 } },
+    { kind: "highway", name: "Karl-Marx-Allee", path: [{ lat: 52.518, lng: 13.412 }, { lat: 52.515, lng: 13.430 }, { lat: 52.512, lng: 13.447 }] },
+    { kind: "highway", name: "Straße des 17. Juni", path: [{ lat: 52.514, lng: 13.363 }, { lat: 52.515, lng: 13.370 }, { lat: 52.516, lng: 13.377 }] },
+  ],
+}
+
+export const ZONE_PROFILES: Record<
+  ZoneKind,
+  {
+    weights: Partial<Record<MissionType, number>> // relative likelihood of each incident type
+    peaks: ZonePeak[]
+  }
+> = {
+  residential: {
+    weights: { fire: 3, "traffic-accident": 1, "medical-emergency": 4, crime: 2, infrastructure: 1 },
+    peaks: [
+      { types: ["fire"], from: 17, to: 21, multiplier: 1.5 },          // cooking
+      { types: ["medical-emergency"], from: 6, to: 9, multiplier: 1.5 },
+    ],
   },
+  commercial: {
+    weights: { fire: 2, "traffic-accident": 2, "medical-emergency": 2, crime: 3, infrastructure: 2 },
+    peaks: [
+      { types: ["crime"], from: 10, to: 18, multiplier: 1.5 },         // shoplifting, pickpockets
+      { types: ["traffic-accident"], from: 7, to: 9, multiplier: 1.5 },
+      { types: ["traffic-accident"], from: 16, to: 18, multiplier: 1.5 },
+      { types: ["crime", "medical-emergency"], from: 22, to: 6, multiplier: 0.5 },
+    ],
+  },
+  industrial: {
+    weights: { fire: 4, "traffic-accident": 1, "medical-emergency": 1, crime: 1, infrastructure: 3 },
+    peaks: [
+      { types: ["fire", "infrastructure"], from: 7, to: 17, multiplier: 1.5 }, // shifts working
+      { types: ["crime"], from: 22, to: 5, multiplier: 2 },                    // break-ins
+    ],
+  },
+  nightlife: {
+    weights: { fire: 1, "traffic-accident": 1, "medical-emergency": 3, crime: 4, infrastructure: 0.5 },
+    peaks: [
+      { types: ["crime", "medical-emergency"], from: 21, to: 4, multiplier: 3 },
+      { types: ["crime", "medical-emergency"], from: 6, to: 17, multiplier: 0.4 },
+    ],
+  },
+  highway: {
+    weights: { fire: 0.5, "traffic-accident": 6, "medical-emergency": 0.5, infrastructure: 2 },
+    peaks: [
+      { types: ["traffic-accident"], from: 7, to: 9, multiplier: 3 },  // rush hours
+      { types: ["traffic-accident"], from: 16, to: 18, multiplier: 3 },
+      { types: ["traffic-accident"], from: 0, to: 5, multiplier: 0.5 },
+    ],
+  },
+}
+
+/** How much busier `type` is in a zone of `kind` at `hour` (0-24, city time) */
+export function zoneActivity(kind: ZoneKind, type: MissionType, hour: number): number {
+  let multiplier = 1
+  for (const peak of ZONE_PROFILES[kind].peaks) {
+    if (!peak.types.includes(type)) continue
+    const inside = peak.from <= peak.to ? hour >= peak.from && hour < peak.to : hour >= peak.from || hour < peak.to
+    if (inside) multiplier *= peak.multiplier
+  }
+  return multiplier
+}
+
+// --- Day/night cycle ---
+// Hourly curves are indexed by the hour of day in the city's own time zone;
+// values between whole hours are interpolated.
+
+export type DayPhase = "night" | "morning" | "day" | "evening"
+
+// Phases start at `from` and run until the next one starts. `mix` scales the
+// incident types citywide, on top of the zone profiles.
+export const DAY_PHASES: { phase: DayPhase; label: string; from: number; mix: Partial<Record<MissionType, number>> }[] = [
+  { phase: "night", label: "Night", from: 0, mix: { "traffic-accident": 0.6, infrastructure: 0.5, crime: 1.3 } },
+  { phase: "morning", label: "Morning", from: 6, mix: { "traffic-accident": 1.3, crime: 0.7 } },
+  { phase: "day", label: "Day", from: 10, mix: { infrastructure: 1.3 } },
+  { phase: "evening", label: "Evening", from: 17, mix: { fire: 1.2, "traffic-accident": 1.1 } },
 ]
 
+// How often incidents come in, relative to the base spawn delay
+export const INCIDENT_RATE_BY_HOUR = [
+  1.0, 0.8, 0.6, 0.5, 0.5, 0.6, 0.8, 1.1, 1.3, 1.2, 1.0, 1.0,
+  1.1, 1.0, 1.0, 1.1, 1.3, 1.4, 1.3, 1.1, 1.0, 1.0, 1.1, 1.2,
+]
+
+// NPC cars on the road, relative to the traffic manager's base target
+export const TRAFFIC_BY_HOUR = [
+  0.25, 0.15, 0.1, 0.1, 0.15, 0.3, 0.6, 1.0, 1.4, 1.1, 0.9, 0.9,
+  0.95, 0.9, 0.95, 1.1, 1.3, 1.4, 1.2, 0.9, 0.7, 0.55, 0.45, 0.35,
+]
+
+// Busiest hours of the incident curve, announced in the HUD
+export const DAILY_PEAKS: { label: string; hour: number }[] = [
+  { label: "Morning rush", hour: 8 },
+  { label: "Evening rush", hour: 17 },
+  { label: "Nightlife", hour: 23 },
+]
+
+/** Value of an hourly curve at `hour` (0-24, fractional) */
+export function hourlyCurve(curve: readonly number[], hour: number): number {
+  const h = ((hour % 24) + 24) % 24
+  const i = Math.floor(h)
+  const next = curve[(i + 1) % 24]
+  return curve[i] + (next - curve[i]) * (h - i)
+}
+
+export function dayPhase(hour: number): (typeof DAY_PHASES)[number] {
+  return DAY_PHASES.findLast((p) => hour >= p.from) ?? DAY_PHASES[0]
+}
+
+/** The next daily peak after `hour`, with the hours left until it starts */
+export function nextPeak(hour: number): { label: string; hour: number; inHours: number } {
+  const upcoming = DAILY_PEAKS.map((p) => ({ ...p, inHours: (p.hour - hour + 24) % 24 || 24 }))
+  return upcoming.reduce((a, b) => (b.inHours < a.inHours ? b : a))
+}
+
+/** How dark the map is (0 = full daylight, 1 = darkest), with dusk and dawn in between */
+export function nightDarkness(hour: number): number {
+  const DUSK = 19
+  const DAWN = 6
+  const TWILIGHT = 1.5 // hours to fade in or out
+  if (hour >= DAWN + TWILIGHT && hour < DUSK) return 0
+  if (hour >= DUSK + TWILIGHT || hour < DAWN) return 1
+  return hour >= DUSK ? (hour - DUSK) / TWILIGHT : 1 - (hour - DAWN) / TWILIGHT
+}
+
+// --- Weather ---
+
+export type WeatherKind = "clear" | "rain" | "snow" | "ice" | "storm" | "heatwave"
+
+/** One stretch of the same weather; the first spell in GameState.weather is the current one */
+export interface WeatherSpell {
+  kind: WeatherKind
+  from: number  // game time (ms)
+  until: number // game time (ms)
+}
+
+export const WEATHER_CONFIGS: Record<
+  WeatherKind,
+  {
+    label: string
+    speedFactor: number // applied to emergency units and NPC cars alike
+    incidentRates: Partial<Record<MissionType, number>>
+    hours: [number, number] // how long a spell lasts (game hours, min-max)
+    months?: number[]       // months (1-12) it can happen in; any month when unset
+    follows?: WeatherKind[] // much more likely right after one of these
+  }
+> = {
+  clear: { label: "Clear", speedFactor: 1, incidentRates: {}, hours: [8, 30] },
+  rain: { label: "Rain", speedFactor: 0.9, incidentRates: { "traffic-accident": 1.3 }, hours: [3, 12] },
+  snow: {
+    label: "Snow",
+    speedFactor: 0.75,
+    incidentRates: { "traffic-accident": 1.6, infrastructure: 1.3 },
+    hours: [4, 16],
+    months: [11, 12, 1, 2, 3],
+  },
+  ice: {
+    label: "Ice",
+    speedFactor: 0.6,
+    incidentRates: { "traffic-accident": 2.5, "medical-emergency": 1.3 }, // crashes and falls
+    hours: [3, 10],
+    months: [11, 12, 1, 2, 3],
+    follows: ["rain", "snow"],
+  },
+  storm: {
+    label: "Storm",
+    speedFactor: 0.8,
+    incidentRates: { infrastructure: 2.5, fire: 1.3, "traffic-accident": 1.3 },
+    hours: [2, 8],
+  },
+  heatwave: {
+    label: "Heatwave",
+    speedFactor: 1,
+    incidentRates: { "medical-emergency": 2, fire: 1.5 },
+    hours: [24, 72],
+    months: [6, 7, 8],
+  },
+}
+
+// How common each kind of weather is per city; seasons are in WEATHER_CONFIGS
+export const CITY_CLIMATES: Record<string, Record<WeatherKind, number>> = {
+  oslo: { clear: 5, rain: 3, snow: 3, ice: 1, storm: 1, heatwave: 1 },
+  copenhagen: { clear: 5, rain: 4, snow: 1, ice: 1, storm: 2, heatwave: 1 },
+  stockholm: { clear: 5, rain: 3, snow: 3, ice: 1, storm: 1, heatwave: 1 },
+  helsinki: { clear: 5, rain: 3, snow: 4, ice: 2, storm: 1, heatwave: 0.5 },
+  london: { clear: 4, rain: 6, snow: 0.5, ice: 0.5, storm: 2, heatwave: 1 },
+  berlin: { clear: 6, rain: 3, snow: 1, ice: 1, storm: 1, heatwave: 2 },
+}
+
+export const DEFAULT_CLIMATE: Record<WeatherKind, number> = { clear: 5, rain: 3, snow: 1, ice: 1, storm: 1, heatwave: 1 }
+
+/** How much more often incidents of `type` happen in `kind` weather */
+export function weatherIncidentRate(kind: WeatherKind, type: MissionType): number {
+  return WEATHER_CONFIGS[kind].incidentRates[type] ?? 1
+}
+
 export const BUILDING_CONFIGS: Record<
   BuildingType,
   {
@@ -175,6 +554,7 @@ export const BUILDING_CONFIGS: Record<
     color: string
     vehicles: { type: string; count: number }[]
     maxLevel: number
+    beds?: number // patient beds (cold-storage places at a morgue) at small size, level 1
   }
 > = {
   "fire-station": {
@@ -212,6 +592,7 @@ export const BUILDING_CONFIGS: Record<
     color: "#e04444",
     vehicles: [{ type: "Ambulance", count: 2 }],
     maxLevel: 3,
+    beds: 8,
   },
   "ambulance-station": {
     name: "Ambulance Station",
@@ -236,6 +617,7 @@ export const BUILDING_CONFIGS: Record<
     color: "#cc4488",
     vehicles: [{ type: "Medical Van", count: 1 }],
     maxLevel: 3,
+    beds: 3,
   },
   "road-authority": {
     name: "Road Authority",
@@ -260,9 +642,30 @@ export const BUILDING_CONFIGS: Record<
     color: "#778899",
     vehicles: [{ type: "Transport Van", count: 1 }],
     maxLevel: 3,
+    beds: 4,
+  },
+}
+
+// One-off upgrades bought at a building, kept in Building.upgrades
+export type BuildingUpgradeId = "signal-preemption"
+
+export const BUILDING_UPGRADES: Record<
+  BuildingUpgradeId,
+  { name: string; description: string; buildingType: BuildingType; cost: number }
+> = {
+  "signal-preemption": {
+    name: "Signal Pre-emption",
+    description: "Traffic lights across the city turn green for units on their way to a call",
+    buildingType: "road-authority",
+    cost: 5000,
   },
 }
 
+/** Whether any building in the city has bought `upgrade` */
+export function cityHasUpgrade(buildings: Building[], upgrade: BuildingUpgradeId): boolean {
+  return buildings.some((b) => b.upgrades.includes(upgrade))
+}
+
 export const MISSION_CONFIGS: Record<
   MissionType,
   {
@@ -271,8 +674,10 @@ export const MISSION_CONFIGS: Record<
     baseReward: number
     basePenalty: number
     baseTimeLimit: number
-    workDuration: number
-    requiredBuildings: BuildingType[]
+    phases: MissionPhase[]
+    escalation: MissionEscalation
+    patients?: { min: number; max: number; severities: Record<PatientSeverity, number> } // severity weights
+    closesRoad?: boolean // the road at the scene stays closed until the call is done
     icon: string
     color: string
   }
@@ -288,8 +693,20 @@ export const MISSION_CONFIGS: Record<
     baseReward: 1500,
     basePenalty: 800,
     baseTimeLimit: 660,  // 11 hours
-    workDuration: 45,     // 45 minutes work time
-    requiredBuildings: ["fire-station"],
+    phases: [
+      { name: "Size-up", duration: 10, requiredBuildings: ["fire-station"] },
+      { name: "Suppression", duration: 25, requiredBuildings: ["fire-station", "fire-station"] },
+      { name: "Overhaul", duration: 10, requiredBuildings: ["fire-station"] },
+    ],
+    escalation: {
+      window: 90,
+      title: "Spreading Fire",
+      description: "The fire has spread to neighbouring buildings!",
+      rewardMultiplier: 1.6,
+      penaltyMultiplier: 1.8,
+      extraUnits: ["fire-station"],
+      fatalityChance: 0.3,
+    },
     icon: "Flame",
     color: "#e86430",
   },
@@ -304,8 +721,22 @@ export const MISSION_CONFIGS: Record<
     baseReward: 1200,
     basePenalty: 600,
     baseTimeLimit: 480,  // 8 hours
-    workDuration: 30,     // 30 minutes work time
-    requiredBuildings: ["ambulance-station", "police-station"],
+    phases: [
+      { name: "Scene safety", duration: 5, requiredBuildings: ["police-station"] },
+      { name: "Extrication", duration: 12, requiredBuildings: ["ambulance-station", "police-station"] },
+      { name: "Treatment", duration: 8, requiredBuildings: ["ambulance-station"] },
+      { name: "Transport", duration: 5, requiredBuildings: ["ambulance-station"] },
+    ],
+    escalation: {
+      window: 75,
+      title: "Crash Site Fire",
+      description: "Leaking fuel has caught fire at the crash site!",
+      rewardMultiplier: 1.5,
+      penaltyMultiplier: 1.7,
+      extraUnits: ["fire-station"],
+      fatalityChance: 0.4,
+    },
+    patients: { min: 1, max: 3, severities: { minor: 5, serious: 3, critical: 2 } },
     icon: "CarFront",
     color: "#ddaa22",
   },
@@ -320,8 +751,21 @@ export const MISSION_CONFIGS: Record<
     baseReward: 1000,
     basePenalty: 500,
     baseTimeLimit: 360,  // 6 hours
-    workDuration: 20,     // 20 minutes work time
-    requiredBuildings: ["hospital", "ambulance-station"],
+    phases: [
+      { name: "Assessment", duration: 5, requiredBuildings: ["ambulance-station"] },
+      { name: "Stabilization", duration: 10, requiredBuildings: ["hospital", "ambulance-station"] },
+      { name: "Transport", duration: 5, requiredBuildings: ["ambulance-station"] },
+    ],
+    escalation: {
+      window: 45,
+      title: "Cardiac Arrest",
+      description: "The patient's condition has become critical!",
+      rewardMultiplier: 1.5,
+      penaltyMultiplier: 2,
+      extraUnits: ["ambulance-station"],
+      fatalityChance: 0,
+    },
+    patients: { min: 1, max: 1, severities: { minor: 3, serious: 4, critical: 3 } },
     icon: "HeartPulse",
     color: "#e04444",
   },
@@ -336,8 +780,20 @@ export const MISSION_CONFIGS: Record<
     baseReward: 1300,
     basePenalty: 700,
     baseTimeLimit: 540,  // 9 hours
-    workDuration: 35,     // 35 minutes work time
-    requiredBuildings: ["police-station"],
+    phases: [
+      { name: "Containment", duration: 10, requiredBuildings: ["police-station"] },
+      { name: "Arrest", duration: 15, requiredBuildings: ["police-station", "police-station"] },
+      { name: "Investigation", duration: 10, requiredBuildings: ["police-station"] },
+    ],
+    escalation: {
+      window: 60,
+      title: "Hostage Situation",
+      description: "The suspects have barricaded themselves in with hostages!",
+      rewardMultiplier: 1.8,
+      penaltyMultiplier: 2,
+      extraUnits: ["police-station", "police-station"],
+      fatalityChance: 0.25,
+    },
     icon: "ShieldAlert",
     color: "#4488ee",
   },
@@ -352,9 +808,281 @@ export const MISSION_CONFIGS: Record<
     baseReward: 800,
     basePenalty: 400,
     baseTimeLimit: 720,  // 12 hours
-    workDuration: 50,     // 50 minutes work time
-    requiredBuildings: ["road-authority"],
+    phases: [
+      { name: "Cordon", duration: 10, requiredBuildings: ["road-authority"] },
+      { name: "Repair", duration: 30, requiredBuildings: ["road-authority", "road-authority"] },
+      { name: "Inspection", duration: 10, requiredBuildings: ["road-authority"] },
+    ],
+    closesRoad: true,
+    escalation: {
+      window: 120,
+      title: "Major Road Failure",
+      description: "The damage has spread and traffic is backing up across the district!",
+      rewardMultiplier: 1.4,
+      penaltyMultiplier: 1.6,
+      extraUnits: ["police-station"],
+      fatalityChance: 0.1,
+    },
     icon: "AlertTriangle",
     color: "#ddaa22",
   },
+  // Never spawned at random: follows incidents that cost lives (see the engine's step)
+  "fatality-recovery": {
+    titles: ["Fatality Recovery"],
+    descriptions: ["Remains must be collected from the scene."],
+    baseReward: 300,  // per fatality
+    basePenalty: 900, // per fatality, when remains are not collected in time
+    baseTimeLimit: 180,  // 3 hours
+    phases: [
+      { name: "Scene release", duration: 10, requiredBuildings: ["morgue"] },
+      { name: "Recovery", duration: 15, requiredBuildings: ["morgue"] },
+    ],
+    escalation: {
+      window: 90,
+      title: "Public Outcry",
+      description: "Remains left at the scene have drawn a crowd and the press!",
+      rewardMultiplier: 1,
+      penaltyMultiplier: 1.5,
+      extraUnits: ["police-station"],
+      fatalityChance: 0,
+    },
+    icon: "Skull",
+    color: "#778899",
+  },
+}
+
+// --- Disasters ---
+
+export type DisasterKind = "flood" | "blackout" | "major-storm" | "stadium-evacuation"
+
+// A city-wide emergency: a cluster of linked incidents around one spot,
+// with closed roads and maybe a station out of action, settled as a whole
+export interface Disaster {
+  id: string
+  kind: DisasterKind
+  name: string
+  position: LatLng
+  radius: number          // metres around `position` the incidents come in from
+  startedAt: number       // game time (ms)
+  endsAt: number          // closures and the knocked-out station last until then
+  missionIds: string[]
+  upcoming: number[]      // game times (ms) the rest of the incidents come in
+  completed: number
+  failed: number
+  knockedOutBuildingId?: string
+  outcome?: { won: boolean; settlement: number; endedAt: number } // set once every incident is resolved
+  dismissed?: boolean     // the player has closed its summary
 }
+
+// A closed stretch of road: routes keep out of the circle around `position`.
+// One an incident put there lifts once the road authority has finished the job.
+export interface RoadClosure {
+  id: string
+  position: LatLng
+  radius: number  // metres
+  reason: string
+  missionId?: string
+  disasterId?: string
+  until?: number  // game time (ms) it reopens by itself
+}
+
+export const DISASTER_CONFIGS: Record<
+  DisasterKind,
+  {
+    label: string
+    description: string
+    icon: string
+    hours: number                 // how long closures and the knockout last
+    incidents: number             // linked missions over the whole disaster
+    calls: { type: MissionType; title: string; description: string }[]
+    radius: number                // metres
+    closures: number
+    closureReason: string
+    knockout: BuildingType[]      // station types it can put out of action
+    zones: ZoneKind[]             // where it can strike
+    weather: Partial<Record<WeatherKind, number>> // more likely in this weather
+    winShare: number              // share of incidents to resolve for a win
+    bonus: number                 // paid on a win
+    penalty: number               // charged on a loss, on top of the failed calls
+  }
+> = {
+  flood: {
+    label: "Flood",
+    description: "Water has broken through and whole streets are under water.",
+    icon: "Waves",
+    hours: 8,
+    incidents: 7,
+    calls: [
+      { type: "infrastructure", title: "Flooded Underpass", description: "An underpass is full of water and needs pumping out." },
+      { type: "medical-emergency", title: "Trapped in Flooded Basement", description: "Residents are trapped by rising water below ground." },
+      { type: "traffic-accident", title: "Car Swept Off Road", description: "A car has been carried off the road by floodwater." },
+      { type: "fire", title: "Electrical Fire in Flooded Building", description: "Water has shorted the wiring and started a fire." },
+    ],
+    radius: 1200,
+    closures: 4,
+    closureReason: "Flooded road",
+    knockout: ["fire-station", "ambulance-station", "police-station"],
+    zones: ["residential", "industrial", "highway"],
+    weather: { rain: 3, storm: 3 },
+    winShare: 0.7,
+    bonus: 8000,
+    penalty: 6000,
+  },
+  blackout: {
+    label: "Blackout",
+    description: "The power grid is down across the district; signals and alarms are dark.",
+    icon: "ZapOff",
+    hours: 6,
+    incidents: 6,
+    calls: [
+      { type: "crime", title: "Looting in the Dark", description: "Shops are being broken into while the alarms are down." },
+      { type: "infrastructure", title: "Substation Failure", description: "A burnt-out substation needs repair before power returns." },
+      { type: "medical-emergency", title: "Life Support Without Power", description: "A patient at home relies on equipment that has stopped." },
+      { type: "traffic-accident", title: "Collision at Dark Junction", description: "Traffic lights are out and two cars have collided." },
+      { type: "fire", title: "Generator Fire", description: "A backup generator has caught fire." },
+    ],
+    radius: 1500,
+    closures: 2,
+    closureReason: "Signals out",
+    knockout: ["police-station", "fire-station"],
+    zones: ["commercial", "residential", "nightlife"],
+    weather: { heatwave: 2, storm: 2 },
+    winShare: 0.7,
+    bonus: 6000,
+    penalty: 5000,
+  },
+  "major-storm": {
+    label: "Major Storm",
+    description: "Hurricane-force winds are tearing through the city.",
+    icon: "CloudLightning",
+    hours: 6,
+    incidents: 8,
+    calls: [
+      { type: "infrastructure", title: "Fallen Trees Across Road", description: "Trees have come down and block the road." },
+      { type: "fire", title: "Lightning Strike Fire", description: "Lightning has set a building on fire." },
+      { type: "traffic-accident", title: "Multi-Car Pile-Up", description: "Several cars have collided in the storm." },
+      { type: "infrastructure", title: "Roof Torn Off", description: "A roof has been ripped off and debris is flying." },
+      { type: "medical-emergency", title: "Injured by Debris", description: "A pedestrian has been hit by flying debris." },
+    ],
+    radius: 2000,
+    closures: 5,
+    closureReason: "Fallen trees",
+    knockout: ["fire-station", "ambulance-station", "police-station", "road-authority"],
+    zones: ["residential", "commercial", "industrial", "highway"],
+    weather: { storm: 5, rain: 2 },
+    winShare: 0.65,
+    bonus: 9000,
+    penalty: 7000,
+  },
+  "stadium-evacuation": {
+    label: "Stadium Evacuation",
+    description: "A packed venue is being evacuated and the crowd is spilling into the streets.",
+    icon: "Users",
+    hours: 4,
+    incidents: 6,
+    calls: [
+      { type: "medical-emergency", title: "Crowd Crush Injuries", description: "People have been hurt in the crush at the exits." },
+      { type: "crime", title: "Fighting in the Crowd", description: "Rival fans are fighting outside the venue." },
+      { type: "traffic-accident", title: "Gridlock Collision", description: "A car has hit pedestrians in the gridlock." },
+      { type: "medical-emergency", title: "Fans Collapsed", description: "Several fans have collapsed in the crowd." },
+    ],
+    radius: 800,
+    closures: 3,
+    closureReason: "Crowd control",
+    knockout: [],
+    zones: ["commercial", "nightlife"],
+    weather: { clear: 2, heatwave: 2 },
+    winShare: 0.75,
+    bonus: 7000,
+    penalty: 5000,
+  },
+}
+
+/** Units to send for `phases`: for every type, the most any one phase needs */
+export function phaseRequirements(phases: MissionPhase[]): BuildingType[] {
+  const most = new Map<BuildingType, number>()
+  for (const phase of phases) {
+    const counts = new Map<BuildingType, number>()
+    for (const type of phase.requiredBuildings) counts.set(type, (counts.get(type) ?? 0) + 1)
+    for (const [type, count] of counts) most.set(type, Math.max(most.get(type) ?? 0, count))
+  }
+  return [...most].flatMap(([type, count]) => Array.from({ length: count }, () => type))
+}
+
+// --- Severity and response ---
+
+export const SEVERITY_LEVELS: MissionSeverity[] = ["minor", "moderate", "major", "critical"]
+
+export const MISSION_SEVERITY: Record<
+  MissionSeverity,
+  {
+    weight: number              // how often calls come in at this level
+    rewardMultiplier: number
+    penaltyMultiplier: number
+    timeLimitMultiplier: number
+    extraUnits: number          // more of the main unit type in the longest phase
+    targetResponse: number      // game minutes
+  }
+> = {
+  minor: { weight: 4, rewardMultiplier: 0.7, penaltyMultiplier: 0.6, timeLimitMultiplier: 1.25, extraUnits: 0, targetResponse: 30 },
+  moderate: { weight: 4, rewardMultiplier: 1, penaltyMultiplier: 1, timeLimitMultiplier: 1, extraUnits: 0, targetResponse: 20 },
+  major: { weight: 2, rewardMultiplier: 1.5, penaltyMultiplier: 1.5, timeLimitMultiplier: 0.8, extraUnits: 1, targetResponse: 15 },
+  critical: { weight: 1, rewardMultiplier: 2.2, penaltyMultiplier: 2, timeLimitMultiplier: 0.6, extraUnits: 2, targetResponse: 10 },
+}
+
+// Response-time reward curve: on target pays 100%, faster pays up to 125%,
+// and every further target's worth of delay takes 25% off, down to 40%
+export const RESPONSE_SCORE_MAX = 1.25
+export const RESPONSE_SCORE_MIN = 0.4
+
+/** Reward multiplier for the first unit reaching the scene `responseMinutes` after the call */
+export function responseScore(responseMinutes: number, targetMinutes: number): number {
+  const score = 1.25 - 0.25 * (responseMinutes / targetMinutes)
+  return Math.min(RESPONSE_SCORE_MAX, Math.max(RESPONSE_SCORE_MIN, score))
+}
+
+// --- Patient care ---
+
+// Units from these buildings can carry a patient
+export const TRANSPORT_BUILDINGS: BuildingType[] = ["ambulance-station", "hospital", "medical-clinic"]
+/** The units among `types` that can carry a patient */
+export function transportUnits(types: BuildingType[]): BuildingType[] {
+  return types.filter((type) => TRANSPORT_BUILDINGS.includes(type))
+}
+
+// Buildings that admit patients (morgues have places too, but not for them)
+export const CARE_FACILITIES: BuildingType[] = ["hospital", "medical-clinic"]
+
+export const PATIENT_CARE: Record<
+  PatientSeverity,
+  {
+    goldenMinutes: number // from the call to a bed, for a full recovery
+    stayMinutes: number   // how long the patient keeps a bed
+    hospitalOnly: boolean // a clinic can take them, but with complications
+  }
+> = {
+  minor: { goldenMinutes: 240, stayMinutes: 120, hospitalOnly: false },
+  serious: { goldenMinutes: 90, stayMinutes: 360, hospitalOnly: true },
+  critical: { goldenMinutes: 45, stayMinutes: 720, hospitalOnly: true },
+}
+
+// Share of a call's reward that depends on its patients, and how much of it each outcome earns
+export const PATIENT_REWARD_SHARE = 0.5
+export const PATIENT_OUTCOME_PAY: Record<PatientOutcome, number> = {
+  recovered: 1,
+  complications: 0.5,
+  lost: 0,
+}
+
+/** Patient beds in a building: none unless it is a care facility; doubles at large size, +50% per level */
+export function bedCapacity(building: Building): number {
+  const beds = BUILDING_CONFIGS[building.type].beds ?? 0
+  return Math.round(beds * (building.size === "large" ? 2 : 1) * (1 + (building.level - 1) * 0.5))
+}
+
+// --- Fatalities ---
+
+// Game minutes remains stay at a morgue before release, and what it costs per
+// body when no morgue has room
+export const REMAINS_STAY_MINUTES = 24 * 60
+export const MORGUE_OVERFLOW_FEE = 250
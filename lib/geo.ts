@@ -0,0 +1,42 @@
+// geo.ts - distances and speeds along lat/lng polylines
+import type { LatLng } from "./game-types"
+
+const EARTH_RADIUS_M = 6371000
+
+// Speed assumed where a route says nothing better (km/h)
+export const DEFAULT_SPEED_KMH = 40
+
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const toRad = Math.PI / 180
+  const dLat = (b.lat - a.lat) * toRad
+  const dLng = (b.lng - a.lng) * toRad
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * toRad) * Math.cos(b.lat * toRad) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h))
+}
+
+/** Length of a polyline in metres */
+export function polylineLength(coords: LatLng[]): number {
+  let meters = 0
+  for (let i = 1; i < coords.length; i++) meters += distanceMeters(coords[i - 1], coords[i])
+  return meters
+}
+
+/**
+ * Per-segment speeds (m/s) for a polyline. Uses `speeds` when it has a sane
+ * value for every segment, otherwise spreads `duration` evenly over the route.
+ */
+export function segmentSpeeds(
+  coords: LatLng[],
+  distance: number,
+  duration: number,
+  speeds?: number[],
+): number[] {
+  const segments = Math.max(0, coords.length - 1)
+  if (speeds && speeds.length === segments && speeds.every((s) => Number.isFinite(s) && s > 0)) {
+    return speeds
+  }
+  const average = distance > 0 && duration > 0 ? distance / duration : DEFAULT_SPEED_KMH / 3.6
+  return new Array(segments).fill(average)
+}
@@ -0,0 +1,86 @@
+/**
+ * Replay Player
+ * Re-simulates a replay log (see replay.ts) in a fresh headless engine.
+ */
+
+import type { GameState } from "./game-types"
+import type { ReplayLog } from "./replay"
+import { INITIAL_STATE, SimulationEngine } from "./simulation-engine"
+import { FIXED_STEP_MINUTES } from "./game-clock"
+
+/**
+ * Plays a replay log step by step. Seeking backwards rebuilds the session from the
+ * base snapshot and fast-forwards, which is cheap since the engine is headless.
+ */
+export class ReplayPlayer {
+  private engine: SimulationEngine
+  private cursor = 0 // next entry to apply
+  private stepsDone = 0
+
+  constructor(readonly log: ReplayLog) {
+    this.engine = this.createEngine()
+  }
+
+  get length() {
+    return this.log.totalSteps
+  }
+
+  get position() {
+    return this.stepsDone
+  }
+
+  getState(): GameState {
+    return this.engine.getState()
+  }
+
+  seek(step: number) {
+    const target = Math.max(0, Math.min(step, this.length))
+    if (target < this.stepsDone) {
+      this.engine = this.createEngine()
+      this.cursor = 0
+      this.stepsDone = 0
+    }
+    this.advance(target - this.stepsDone)
+  }
+
+  advance(steps: number) {
+    const end = Math.min(this.length, this.stepsDone + steps)
+    this.engine.batch(() => {
+      while (this.stepsDone < end) {
+        this.applyDueEntries()
+        this.engine.step(FIXED_STEP_MINUTES)
+        this.stepsDone++
+      }
+      this.applyDueEntries()
+    })
+  }
+
+  private createEngine() {
+    const engine = new SimulationEngine(INITIAL_STATE, {
+      replay: true,
+      seed: this.log.base.seed,
+      clock: { now: () => this.log.base.savedAt },
+    })
+    engine.loadSnapshot(this.log.base)
+    return engine
+  }
+
+  private applyDueEntries() {
+    const { entries } = this.log
+    while (this.cursor < entries.length && entries[this.cursor].step <= this.stepsDone) {
+      const entry = entries[this.cursor++]
+      switch (entry.kind) {
+        case "command":
+          // Pausing is the viewer's job: a paused engine would swallow steps
+          if (entry.command.type !== "setPaused") this.engine.execute(entry.command)
+          break
+        case "route":
+          this.engine.deliverRoute(entry.vehicleId, entry.route)
+          break
+        case "traffic":
+          this.engine.applyTrafficSample(entry.vehicleId, entry.density)
+          break
+      }
+    }
+  }
+}
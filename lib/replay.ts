@@ -0,0 +1,83 @@
+/**
+ * Replays
+ * A replay is the snapshot a session started from plus everything that fed
+ * into it afterwards: player commands, and the non-deterministic inputs the
+ * engine consumed (route lookups from the network, NPC traffic density).
+ * Entries are stamped with the number of fixed steps completed when they
+ * happened, so re-simulating the log reproduces the session exactly.
+ *
+ * replay-player.ts plays a log back.
+ */
+
+import type {
+  BuildingSize,
+  BuildingType,
+  BuildingUpgradeId,
+  DispatchPolicy,
+  GameSpeed,
+  LatLng,
+  MissionType,
+} from "./game-types"
+import type { GameSnapshot } from "./save-game"
+import type { ResolvedRoute } from "./route-service"
+import { migrateSnapshot } from "./save-game"
+
+export const REPLAY_VERSION = 3
+
+/** Every player action that changes the simulation */
+export type GameCommand =
+  | { type: "placeBuilding"; buildingType: BuildingType; position: LatLng; size: BuildingSize }
+  | { type: "upgradeBuilding"; buildingId: string }
+  | { type: "buyUpgrade"; buildingId: string; upgrade: BuildingUpgradeId }
+  | { type: "hireStaff"; buildingId: string }
+  | { type: "purchaseVehicle"; buildingId: string }
+  | { type: "sellBuilding"; buildingId: string }
+  | { type: "dispatchVehicle"; missionId: string; vehicleIds?: string[]; auto?: boolean } // ids: units actually chosen
+  | { type: "recallVehicle"; vehicleId: string }
+  | { type: "reassignVehicle"; vehicleId: string; missionId: string }
+  | { type: "setDispatchPolicy"; missionType: MissionType; policy: DispatchPolicy }
+  | { type: "setPaused"; paused: boolean }
+  | { type: "setGameSpeed"; speed: GameSpeed }
+
+export type ReplayEntryData =
+  | { kind: "command"; command: GameCommand }
+  | { kind: "route"; vehicleId: string; route: ResolvedRoute }
+  | { kind: "traffic"; vehicleId: string; density: number }
+
+export type ReplayEntry = ReplayEntryData & {
+  step: number     // fixed steps completed when the entry was recorded
+  gameTime: number
+}
+
+export interface ReplayLog {
+  version: number
+  recordedAt: number
+  base: GameSnapshot
+  entries: ReplayEntry[]
+  totalSteps: number
+}
+
+// --- Files ---
+
+export function downloadReplay(log: ReplayLog) {
+  const blob = new Blob([JSON.stringify(log)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = `replay-${log.base.city.id}-${log.base.seed}.json`
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+export function parseReplay(json: string): ReplayLog | null {
+  try {
+    const data = JSON.parse(json)
+    if (data?.version !== REPLAY_VERSION || !Array.isArray(data.entries)) return null
+    // The base snapshot follows the save format, so old replays migrate like saves
+    const base = migrateSnapshot(data.base)
+    if (!base) return null
+    return { ...data, base }
+  } catch {
+    return null
+  }
+}
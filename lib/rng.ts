@@ -0,0 +1,73 @@
+/**
+ * Seeded RNG
+ * Small deterministic PRNG (mulberry32) used for every random decision in the
+ * simulation, so the same seed plus the same player commands replays the same
+ * session. The whole generator state is one 32-bit integer, which makes it
+ * trivial to store in save games.
+ */
+
+export interface Rng {
+  /** Float in [0, 1), drop-in for Math.random */
+  next: () => number
+  /** Integer in [0, maxExclusive) */
+  int: (maxExclusive: number) => number
+  pick: <T>(items: readonly T[]) => T
+  /** Key of `weights`, chosen with probability proportional to its weight */
+  weighted: <K extends string>(weights: Record<K, number>) => K
+  /** Item of `items`, chosen with probability proportional to `weightOf(item)` */
+  pickWeighted: <T>(items: readonly T[], weightOf: (item: T) => number) => T
+  getState: () => number
+  setState: (state: number) => void
+}
+
+/** FNV-1a hash: turns any seed string into a 32-bit integer */
+export function hashSeed(seed: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+export function createRng(seed: number | string): Rng {
+  let s = typeof seed === "string" ? hashSeed(seed) : seed >>> 0
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0
+    let t = s
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  function pickWeighted<T>(items: readonly T[], weightOf: (item: T) => number): T {
+    const weights = items.map(weightOf)
+    let roll = next() * weights.reduce((sum, w) => sum + w, 0)
+    for (let i = 0; i < items.length; i++) {
+      roll -= weights[i]
+      if (roll < 0) return items[i]
+    }
+    return items[items.length - 1]
+  }
+
+  return {
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    weighted: (weights) => {
+      const entries = Object.entries(weights) as [keyof typeof weights, number][]
+      return pickWeighted(entries, ([, w]) => w)[0]
+    },
+    pickWeighted,
+    getState: () => s,
+    setState: (state) => {
+      s = state >>> 0
+    },
+  }
+}
+
+/** Short, human-shareable seed such as "k3x9qa" */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, "0")
+}
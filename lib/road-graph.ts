@@ -0,0 +1,261 @@
+/**
+ * Road Graph
+ * Offline routing on a pre-baked road network. Graphs are baked per city by
+ * scripts/bake-road-graph.mjs from OpenStreetMap and served as static files from
+ * /road-graphs/<cityId>.json; routes are found with A* on travel time.
+ */
+
+import type { LatLng } from "./game-types"
+import type { ResolvedRoute } from "./route-service"
+import { distanceMeters, polylineLength } from "./geo"
+
+export const ROAD_GRAPH_VERSION = 1
+
+/** Baked file format: flat arrays keep multi-megabyte graphs compact */
+export interface RoadGraphData {
+  version: number
+  cityId: string
+  /** lat0, lng0, lat1, lng1, ... */
+  nodes: number[]
+  /** from0, to0, speedKmh0, oneway0 (0/1), from1, ... */
+  edges: number[]
+}
+
+export interface RoadGraph {
+  cityId: string
+  lat: Float64Array
+  lng: Float64Array
+  // Adjacency in CSR form: outgoing edges of node i are edgeStart[i]..edgeStart[i+1]
+  edgeStart: Uint32Array
+  edgeTo: Uint32Array
+  edgeSeconds: Float32Array
+  maxSpeedMs: number
+  // Spatial buckets for snapping a position to the nearest node
+  cells: Map<string, number[]>
+}
+
+const CELL_DEG = 0.002 // ~200 m buckets
+const MAX_SNAP_RINGS = 5 // give up beyond ~1 km from any road
+const ACCESS_SPEED_MS = 30 / 3.6 // from the route's ends onto the nearest road node
+
+function cellKey(lat: number, lng: number) {
+  return `${Math.floor(lat / CELL_DEG)},${Math.floor(lng / CELL_DEG)}`
+}
+
+export function buildRoadGraph(data: RoadGraphData): RoadGraph {
+  const nodeCount = data.nodes.length / 2
+  const lat = new Float64Array(nodeCount)
+  const lng = new Float64Array(nodeCount)
+  const cells = new Map<string, number[]>()
+  for (let i = 0; i < nodeCount; i++) {
+    lat[i] = data.nodes[i * 2]
+    lng[i] = data.nodes[i * 2 + 1]
+    const key = cellKey(lat[i], lng[i])
+    const cell = cells.get(key)
+    if (cell) cell.push(i)
+    else cells.set(key, [i])
+  }
+
+  // Expand two-way edges into one directed edge per direction
+  const directed: { from: number; to: number; seconds: number }[] = []
+  let maxSpeedMs = 1
+  for (let e = 0; e < data.edges.length; e += 4) {
+    const from = data.edges[e]
+    const to = data.edges[e + 1]
+    const speedMs = Math.max(1, data.edges[e + 2] / 3.6)
+    const oneway = data.edges[e + 3] === 1
+    const meters = distanceMeters({ lat: lat[from], lng: lng[from] }, { lat: lat[to], lng: lng[to] })
+    maxSpeedMs = Math.max(maxSpeedMs, speedMs)
+    directed.push({ from, to, seconds: meters / speedMs })
+    if (!oneway) directed.push({ from: to, to: from, seconds: meters / speedMs })
+  }
+
+  const edgeStart = new Uint32Array(nodeCount + 1)
+  for (const d of directed) edgeStart[d.from + 1]++
+  for (let i = 0; i < nodeCount; i++) edgeStart[i + 1] += edgeStart[i]
+  const fill = edgeStart.slice(0, nodeCount)
+  const edgeTo = new Uint32Array(directed.length)
+  const edgeSeconds = new Float32Array(directed.length)
+  for (const d of directed) {
+    const slot = fill[d.from]++
+    edgeTo[slot] = d.to
+    edgeSeconds[slot] = d.seconds
+  }
+
+  return { cityId: data.cityId, lat, lng, edgeStart, edgeTo, edgeSeconds, maxSpeedMs, cells }
+}
+
+/** Nearest node with at least one outgoing edge, or -1 if nothing is close */
+export function nearestNode(graph: RoadGraph, pos: LatLng): number {
+  const baseLat = Math.floor(pos.lat / CELL_DEG)
+  const baseLng = Math.floor(pos.lng / CELL_DEG)
+  let best = -1
+  let bestDist = Infinity
+
+  // Search outwards ring by ring; one extra ring after a hit covers corner cases
+  for (let ring = 0; ring <= MAX_SNAP_RINGS; ring++) {
+    for (let dy = -ring; dy <= ring; dy++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== ring) continue
+        const cell = graph.cells.get(`${baseLat + dy},${baseLng + dx}`)
+        if (!cell) continue
+        for (const n of cell) {
+          if (graph.edgeStart[n] === graph.edgeStart[n + 1]) continue
+          const d = distanceMeters(pos, { lat: graph.lat[n], lng: graph.lng[n] })
+          if (d < bestDist) {
+            bestDist = d
+            best = n
+          }
+        }
+      }
+    }
+    if (best !== -1 && ring > 0) break
+  }
+  return best
+}
+
+// Minimal binary min-heap of node ids keyed by f-score
+class NodeHeap {
+  private ids: number[] = []
+  private keys: number[] = []
+
+  get size() {
+    return this.ids.length
+  }
+
+  push(id: number, key: number) {
+    this.ids.push(id)
+    this.keys.push(key)
+    let i = this.ids.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.keys[parent] <= this.keys[i]) break
+      this.swap(i, parent)
+      i = parent
+    }
+  }
+
+  pop(): number {
+    const top = this.ids[0]
+    const lastId = this.ids.pop()!
+    const lastKey = this.keys.pop()!
+    if (this.ids.length > 0) {
+      this.ids[0] = lastId
+      this.keys[0] = lastKey
+      let i = 0
+      for (;;) {
+        const l = i * 2 + 1
+        const r = l + 1
+        let min = i
+        if (l < this.ids.length && this.keys[l] < this.keys[min]) min = l
+        if (r < this.ids.length && this.keys[r] < this.keys[min]) min = r
+        if (min === i) break
+        this.swap(i, min)
+        i = min
+      }
+    }
+    return top
+  }
+
+  private swap(a: number, b: number) {
+    ;[this.ids[a], this.ids[b]] = [this.ids[b], this.ids[a]]
+    ;[this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]]
+  }
+}
+
+/**
+ * Fastest route between two positions, snapped to the nearest roads, through
+ * no node `avoid` rules out. Returns null when either end is off the graph or
+ * no path exists.
+ */
+export function findRoute(
+  graph: RoadGraph,
+  from: LatLng,
+  to: LatLng,
+  avoid?: (pos: LatLng) => boolean,
+): ResolvedRoute | null {
+  const start = nearestNode(graph, from)
+  const goal = nearestNode(graph, to)
+  if (start === -1 || goal === -1) return null
+
+  const nodeCount = graph.lat.length
+  const cost = new Float64Array(nodeCount).fill(Infinity)
+  const prev = new Int32Array(nodeCount).fill(-1)
+  const prevEdge = new Int32Array(nodeCount).fill(-1)
+  const closed = new Uint8Array(nodeCount)
+  const goalPos = { lat: graph.lat[goal], lng: graph.lng[goal] }
+  // Straight line at top speed never overestimates, so A* stays optimal
+  const heuristic = (n: number) =>
+    distanceMeters({ lat: graph.lat[n], lng: graph.lng[n] }, goalPos) / graph.maxSpeedMs
+
+  const open = new NodeHeap()
+  cost[start] = 0
+  open.push(start, heuristic(start))
+
+  while (open.size > 0) {
+    const node = open.pop()
+    if (node === goal) break
+    if (closed[node]) continue
+    closed[node] = 1
+
+    for (let e = graph.edgeStart[node]; e < graph.edgeStart[node + 1]; e++) {
+      const next = graph.edgeTo[e]
+      if (avoid && next !== goal && avoid({ lat: graph.lat[next], lng: graph.lng[next] })) continue
+      const nextCost = cost[node] + graph.edgeSeconds[e]
+      if (nextCost < cost[next]) {
+        cost[next] = nextCost
+        prev[next] = node
+        prevEdge[next] = e
+        open.push(next, nextCost + heuristic(next))
+      }
+    }
+  }
+
+  if (start !== goal && prev[goal] === -1) return null
+
+  const path: LatLng[] = []
+  const speeds: number[] = [] // of the edge leading into each path node
+  for (let n = goal; n !== -1; n = prev[n]) {
+    const pos = { lat: graph.lat[n], lng: graph.lng[n] }
+    if (n !== start) {
+      const e = prevEdge[n]
+      const before = prev[n]
+      const meters = distanceMeters({ lat: graph.lat[before], lng: graph.lng[before] }, pos)
+      speeds.push(graph.edgeSeconds[e] > 0 ? meters / graph.edgeSeconds[e] : ACCESS_SPEED_MS)
+    }
+    path.push(pos)
+    if (n === start) break
+  }
+  path.reverse()
+  speeds.reverse()
+
+  const accessMeters = distanceMeters(from, path[0]) + distanceMeters(path[path.length - 1], to)
+  return {
+    coords: [from, ...path, to],
+    speeds: [ACCESS_SPEED_MS, ...speeds, ACCESS_SPEED_MS],
+    distance: polylineLength([from, ...path, to]),
+    duration: cost[goal] + accessMeters / ACCESS_SPEED_MS,
+  }
+}
+
+// --- Loading ---
+
+const graphs = new Map<string, Promise<RoadGraph | null>>()
+
+/** Fetch and build a city's baked graph once; null if none is baked for it */
+export function loadRoadGraph(cityId: string): Promise<RoadGraph | null> {
+  let graph = graphs.get(cityId)
+  if (!graph) {
+    graph = fetch(`/road-graphs/${cityId}.json`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: RoadGraphData | null) =>
+        data?.version === ROAD_GRAPH_VERSION ? buildRoadGraph(data) : null,
+      )
+      .catch(() => {
+        graphs.delete(cityId) // network trouble: try again next time
+        return null
+      })
+    graphs.set(cityId, graph)
+  }
+  return graph
+}
@@ -1,33 +1,43 @@
 // route-service.ts
+import { createRng } from "./rng"
+import { CITY_OPTIONS } from "./game-types"
+import { findRoute, loadRoadGraph } from "./road-graph"
+import { DEFAULT_SPEED_KMH, distanceMeters, polylineLength, segmentSpeeds } from "./geo"
+import type { RoutingConfig } from "./routing-config"
+import { readRoutingConfig } from "./routing-config"
+import { createHttpRouteProvider } from "./routing-adapters"
+
 export type LatLng = { lat: number; lng: number }
 
-type RouteResult = LatLng[]
+/** A route normalized across backends */
+export interface ResolvedRoute {
+  coords: LatLng[]
+  speeds: number[] // m/s for each segment coords[i] -> coords[i + 1]
+  distance: number // metres
+  duration: number // seconds
+}
 
-const OSRM_BASE = "https://router.project-osrm.org"
-const PROFILE = "driving"
+/**
+ * A routing backend. Rejects when it cannot produce a route; getRoute() adds
+ * the concurrency limit, cache, dedupe and circuit breaker around it.
+ */
+export interface RouteProvider {
+  id: string
+  route(from: LatLng, to: LatLng): Promise<ResolvedRoute>
+}
 
 // Global throttle (viktig: både NPC + units går gjennom samme kø)
 const MAX_CONCURRENCY = 2
 
-// Hard timeout per request (demo-OSRM trenger dette)
-const REQUEST_TIMEOUT_MS = 6500
-
-// Retries (med backoff)
-const MAX_RETRIES = 2
-
 // Cache (hindrer spam av samme rute)
 const CACHE_TTL_MS = 5 * 60 * 1000
 
-// Circuit breaker: hvis OSRM feiler mye, bruk fallback en periode
+// Circuit breaker: hvis ruteren feiler mye, bruk fallback en periode
 const BREAKER_FAIL_THRESHOLD = 6
 const BREAKER_COOLDOWN_MS = 60 * 1000
 
 // ---------------- internals ----------------
 
-function sleep(ms: number) {
-  return new Promise((r) => setTimeout(r, ms))
-}
-
 function quantize(n: number, digits = 5) {
   const p = Math.pow(10, digits)
   return Math.round(n * p) / p
@@ -59,8 +69,8 @@ async function withConcurrency<T>(fn: () => Promise<T>): Promise<T> {
 }
 
 // Cache + in-flight dedupe
-const cache = new Map<string, { at: number; route: RouteResult }>()
-const inFlight = new Map<string, Promise<RouteResult>>()
+const cache = new Map<string, { at: number; route: ResolvedRoute }>()
+const inFlight = new Map<string, Promise<ResolvedRoute>>()
 
 // Circuit breaker state
 let breakerFails = 0
@@ -80,8 +90,14 @@ function recordSuccess() {
   breakerFails = 0
 }
 
-// Fallback: samme som din interpolateRoute, men lagt her for gjenbruk
-export function interpolateRoute(from: LatLng, to: LatLng): LatLng[] {
+// Fallback: samme som din interpolateRoute, men lagt her for gjenbruk.
+// Jitter comes from `random`; by default it is seeded from the endpoints, so the
+// same trip always produces the same fallback line.
+export function interpolateRoute(
+  from: LatLng,
+  to: LatLng,
+  random: () => number = createRng(keyFor(from, to)).next,
+): LatLng[] {
   const steps = 30
   const points: LatLng[] = []
   const dLat = to.lat - from.lat
@@ -94,7 +110,7 @@ export function interpolateRoute(from: LatLng, to: LatLng): LatLng[] {
   for (let i = 0; i <= steps; i++) {
     const t = i / steps
     const envelope = Math.sin(Math.PI * t)
-    const jitter = (Math.random() - 0.5) * jitterScale * envelope
+    const jitter = (random() - 0.5) * jitterScale * envelope
     points.push({
       lat: from.lat + dLat * t + perpLat * jitter,
       lng: from.lng + dLng * t + perpLng * jitter,
@@ -103,41 +119,164 @@ export function interpolateRoute(from: LatLng, to: LatLng): LatLng[] {
   return points
 }
 
-async function fetchOsrm(from: LatLng, to: LatLng): Promise<RouteResult> {
-  const url =
-    `${OSRM_BASE}/route/v1/${PROFILE}/` +
-    `${from.lng},${from.lat};${to.lng},${to.lat}` +
-    `?overview=full&geometries=geojson`
+// ---------------- road closures ----------------
+
+/** A closed area routes keep out of (see RoadClosure in game-types) */
+export interface ClosedArea {
+  position: LatLng
+  radius: number // metres
+}
 
-  const ctrl = new AbortController()
-  const t = setTimeout(() => ctrl.abort(), REQUEST_TIMEOUT_MS)
+// Mirrored from the game state by the store. Bumping the version retires
+// every cached route, so nothing keeps driving through a new closure.
+let closedAreas: ClosedArea[] = []
+let closureVersion = 0
 
-  try {
-    const res = await fetch(url, { signal: ctrl.signal })
-    if (!res.ok) throw new Error(`HTTP ${res.status}`)
-    const data = await res.json()
-    const coords = data?.routes?.[0]?.geometry?.coordinates
-    if (!Array.isArray(coords) || coords.length < 2) return []
-    return coords.map(([lng, lat]: [number, number]) => ({ lat, lng }))
-  } finally {
-    clearTimeout(t)
+export function setRoadClosures(areas: ClosedArea[]) {
+  closedAreas = areas
+  closureVersion++
+}
+
+function inArea(pos: LatLng, area: ClosedArea) {
+  return distanceMeters(pos, area.position) < area.radius
+}
+
+// Closures a trip from `from` to `to` has to keep out of: not the ones it
+// starts or ends in, such as the scene a road crew is driving to
+function areasInTheWay(from: LatLng, to: LatLng): ClosedArea[] {
+  return closedAreas.filter((a) => !inArea(from, a) && !inArea(to, a))
+}
+
+/** Whether a route runs through a closure, other than at its own ends */
+export function crossesClosure(coords: LatLng[]): boolean {
+  if (coords.length < 2) return false
+  const areas = areasInTheWay(coords[0], coords[coords.length - 1])
+  return areas.length > 0 && coords.some((p) => areas.some((a) => inArea(p, a)))
+}
+
+function joinRoutes(a: ResolvedRoute, b: ResolvedRoute): ResolvedRoute {
+  return {
+    coords: [...a.coords, ...b.coords.slice(1)],
+    speeds: [...a.speeds, ...b.speeds],
+    distance: a.distance + b.distance,
+    duration: a.duration + b.duration,
   }
 }
 
-async function fetchWithRetry(from: LatLng, to: LatLng): Promise<RouteResult> {
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+// A route that runs through a closure is re-planned via a waypoint beside the
+// first closure it hits, one side and then the other; if neither gets around,
+// the original stands and units crawl through
+async function detourClosures(
+  route: ResolvedRoute,
+  from: LatLng,
+  to: LatLng,
+  leg: (from: LatLng, to: LatLng) => Promise<ResolvedRoute>,
+): Promise<ResolvedRoute> {
+  const areas = areasInTheWay(from, to)
+  const blocking = areas.find((a) => route.coords.some((p) => inArea(p, a)))
+  if (!blocking) return route
+
+  const dLat = to.lat - from.lat
+  const dLng = to.lng - from.lng
+  const len = Math.sqrt(dLat * dLat + dLng * dLng) || 1
+  const offsetDeg = (blocking.radius * 4) / 111320
+  for (const side of [1, -1]) {
+    const waypoint = {
+      lat: blocking.position.lat + (-dLng / len) * offsetDeg * side,
+      lng: blocking.position.lng + (dLat / len) * offsetDeg * side,
+    }
     try {
-      const route = await fetchOsrm(from, to)
-      if (route.length >= 2) return route
-      throw new Error("Empty route")
-    } catch (e) {
-      if (attempt === MAX_RETRIES) throw e
-      // exponential backoff + jitter
-      const backoff = 450 * Math.pow(2, attempt) + Math.random() * 250
-      await sleep(backoff)
+      const joined = joinRoutes(await leg(from, waypoint), await leg(waypoint, to))
+      if (!joined.coords.some((p) => areas.some((a) => inArea(p, a)))) return joined
+    } catch {
+      // try the other side
     }
   }
-  return []
+  return route
+}
+
+// ---------------- providers ----------------
+
+// Finn byen ruten starter i (med litt margin), så vi vet hvilken graf som gjelder
+function cityAt(pos: LatLng) {
+  const margin = 0.02
+  return CITY_OPTIONS.find(
+    (c) =>
+      pos.lat <= c.bounds.north + margin &&
+      pos.lat >= c.bounds.south - margin &&
+      pos.lng <= c.bounds.east + margin &&
+      pos.lng >= c.bounds.west - margin,
+  )
+}
+
+async function routeOffline(from: LatLng, to: LatLng): Promise<ResolvedRoute> {
+  const city = cityAt(from)
+  const graph = city ? await loadRoadGraph(city.id) : null
+  if (!graph) throw new Error("No road graph for this area")
+  // Around closed roads if at all possible, else straight through them
+  const areas = areasInTheWay(from, to)
+  const avoid = areas.length > 0 ? (pos: LatLng) => areas.some((a) => inArea(pos, a)) : undefined
+  const route = (avoid && findRoute(graph, from, to, avoid)) || findRoute(graph, from, to)
+  if (!route) throw new Error("No road path")
+  return route
+}
+
+/** In-browser A* on the city's pre-baked road graph (see road-graph.ts) */
+export const offlineRouteProvider: RouteProvider = {
+  id: "offline",
+  route: routeOffline,
+}
+
+export function createRouteProvider(config: RoutingConfig): RouteProvider {
+  return config.engine === "offline"
+    ? offlineRouteProvider
+    : createHttpRouteProvider({ ...config, engine: config.engine })
+}
+
+// Chosen lazily so the saved settings are read in the browser, not during SSR
+let provider: RouteProvider | null = null
+
+export function getRouteProvider(): RouteProvider {
+  provider ??= createRouteProvider(readRoutingConfig())
+  return provider
+}
+
+export function setRouteProvider(next: RouteProvider) {
+  provider = next
+  // Failures of the old backend say nothing about the new one
+  breakerFails = 0
+  breakerOpenUntil = 0
+}
+
+/** interpolateRoute() as a ResolvedRoute, driven at the default speed */
+export function straightLineRoute(
+  from: LatLng,
+  to: LatLng,
+  random?: () => number,
+): ResolvedRoute {
+  const coords = interpolateRoute(from, to, random)
+  const distance = polylineLength(coords)
+  const duration = distance / (DEFAULT_SPEED_KMH / 3.6)
+  return { coords, speeds: segmentSpeeds(coords, distance, duration), distance, duration }
+}
+
+// When the active provider fails: real streets from the offline graph if we
+// have one for the area, otherwise the jittered straight line
+async function fallbackRoute(from: LatLng, to: LatLng): Promise<ResolvedRoute> {
+  if (getRouteProvider() !== offlineRouteProvider) {
+    try {
+      return await routeOffline(from, to)
+    } catch {
+      // no graph baked for this city
+    }
+  }
+  return detourClosures(straightLineRoute(from, to), from, to, async (a, b) => straightLineRoute(a, b))
+}
+
+/** A cached route from the active provider, or null; never fetches */
+export function peekRoute(from: LatLng, to: LatLng): ResolvedRoute | null {
+  const cached = cache.get(`${getRouteProvider().id}|${closureVersion}|${keyFor(from, to)}`)
+  return cached && Date.now() - cached.at < CACHE_TTL_MS ? cached.route : null
 }
 
 /**
@@ -145,10 +284,12 @@ async function fetchWithRetry(from: LatLng, to: LatLng): Promise<RouteResult> {
  * - global concurrency limit
  * - cache + inflight dedupe
  * - circuit breaker
- * - fallback interpolation if OSRM is down
+ * - fallback to the offline graph / interpolation if the provider is down
+ * - detours around closed roads
  */
-export async function getRoute(from: LatLng, to: LatLng): Promise<RouteResult> {
-  const k = keyFor(from, to)
+export async function getRoute(from: LatLng, to: LatLng): Promise<ResolvedRoute> {
+  const active = getRouteProvider()
+  const k = `${active.id}|${closureVersion}|${keyFor(from, to)}`
 
   // Cache hit
   const cached = cache.get(k)
@@ -156,9 +297,9 @@ export async function getRoute(from: LatLng, to: LatLng): Promise<RouteResult> {
     return cached.route
   }
 
-  // If breaker open: don’t even try OSRM
+  // If breaker open: don’t even try the provider
   if (breakerOpen()) {
-    return interpolateRoute(from, to)
+    return fallbackRoute(from, to)
   }
 
   // Inflight dedupe
@@ -167,13 +308,13 @@ export async function getRoute(from: LatLng, to: LatLng): Promise<RouteResult> {
 
   const p = withConcurrency(async () => {
     try {
-      const route = await fetchWithRetry(from, to)
+      const route = await detourClosures(await active.route(from, to), from, to, active.route)
       recordSuccess()
       cache.set(k, { at: Date.now(), route })
       return route
     } catch {
       recordFail()
-      return interpolateRoute(from, to)
+      return fallbackRoute(from, to)
     } finally {
       inFlight.delete(k)
     }
@@ -0,0 +1,202 @@
+/**
+ * Routing adapters
+ * One adapter per HTTP routing engine (OSRM, Valhalla, GraphHopper). Each one
+ * builds the engine's request and normalizes its answer into a ResolvedRoute:
+ * geometry as LatLng[], per-segment speeds in m/s, distance in metres and
+ * duration in seconds. Engines that do not report speeds per segment get the
+ * route's average speed on every segment.
+ */
+
+import type { LatLng } from "./game-types"
+import type { RoutingConfig, RoutingEngine } from "./routing-config"
+import type { ResolvedRoute, RouteProvider } from "./route-service"
+import { segmentSpeeds } from "./geo"
+
+// Hard timeout per request (demo servers need this)
+const REQUEST_TIMEOUT_MS = 6500
+
+// Retries (with backoff)
+const MAX_RETRIES = 2
+
+type HttpEngine = Exclude<RoutingEngine, "offline">
+type Adapter = (config: RoutingConfig, from: LatLng, to: LatLng) => Promise<ResolvedRoute>
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms))
+}
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "")
+}
+
+// Response bodies are untyped JSON; each adapter narrows what it reads
+async function fetchJson(url: string): Promise<unknown> {
+  const ctrl = new AbortController()
+  const t = setTimeout(() => ctrl.abort(), REQUEST_TIMEOUT_MS)
+  try {
+    const res = await fetch(url, { signal: ctrl.signal })
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    return await res.json()
+  } finally {
+    clearTimeout(t)
+  }
+}
+
+// --- Narrowing the JSON ---
+
+type Json = Record<string, unknown>
+
+/** Follow a path of object keys and array indexes; undefined where it breaks off */
+function at(value: unknown, ...path: (string | number)[]): unknown {
+  let current = value
+  for (const key of path) {
+    if (!current || typeof current !== "object") return undefined
+    current = (current as Json)[key]
+  }
+  return current
+}
+
+function num(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined
+}
+
+function list(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+// GeoJSON-style [lng, lat] pairs
+function lngLatCoords(value: unknown): LatLng[] {
+  const coords: LatLng[] = []
+  for (const point of list(value)) {
+    const lng = num(at(point, 0))
+    const lat = num(at(point, 1))
+    if (lng !== undefined && lat !== undefined) coords.push({ lat, lng })
+  }
+  return coords
+}
+
+function normalized(coords: LatLng[], distance: number, duration: number, speeds?: number[]): ResolvedRoute {
+  if (coords.length < 2) throw new Error("Empty route")
+  return { coords, speeds: segmentSpeeds(coords, distance, duration, speeds), distance, duration }
+}
+
+/** Google encoded polyline; Valhalla uses precision 6 */
+export function decodePolyline(encoded: string, precision = 5): LatLng[] {
+  const factor = Math.pow(10, precision)
+  const points: LatLng[] = []
+  let index = 0
+  let lat = 0
+  let lng = 0
+
+  const next = () => {
+    let result = 0
+    let shift = 0
+    let byte: number
+    do {
+      byte = encoded.charCodeAt(index++) - 63
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20)
+    return result & 1 ? ~(result >> 1) : result >> 1
+  }
+
+  while (index < encoded.length) {
+    lat += next()
+    lng += next()
+    points.push({ lat: lat / factor, lng: lng / factor })
+  }
+  return points
+}
+
+// --- Adapters ---
+
+const osrm: Adapter = async (config, from, to) => {
+  const data = await fetchJson(
+    `${trimSlash(config.baseUrl)}/route/v1/${config.profile}/` +
+      `${from.lng},${from.lat};${to.lng},${to.lat}` +
+      `?overview=full&geometries=geojson&annotations=speed`,
+  )
+  const route = at(data, "routes", 0)
+  // One leg for two waypoints; its speed annotation has one entry per segment (m/s)
+  const speeds = at(route, "legs", 0, "annotation", "speed")
+  return normalized(
+    lngLatCoords(at(route, "geometry", "coordinates")),
+    num(at(route, "distance")) ?? 0, // metres
+    num(at(route, "duration")) ?? 0, // seconds
+    Array.isArray(speeds) ? speeds.map((s) => num(s) ?? 0) : undefined,
+  )
+}
+
+const valhalla: Adapter = async (config, from, to) => {
+  const request = {
+    locations: [
+      { lat: from.lat, lon: from.lng },
+      { lat: to.lat, lon: to.lng },
+    ],
+    costing: config.profile,
+    units: "kilometers",
+  }
+  const data = await fetchJson(
+    `${trimSlash(config.baseUrl)}/route?json=${encodeURIComponent(JSON.stringify(request))}`,
+  )
+  const trip = at(data, "trip")
+  const shapes = list(at(trip, "legs"))
+    .map((leg) => at(leg, "shape"))
+    .filter((shape): shape is string => typeof shape === "string")
+  return normalized(
+    shapes.flatMap((shape) => decodePolyline(shape, 6)),
+    (num(at(trip, "summary", "length")) ?? 0) * 1000, // km
+    num(at(trip, "summary", "time")) ?? 0, // seconds
+  )
+}
+
+const graphhopper: Adapter = async (config, from, to) => {
+  const params = new URLSearchParams({
+    profile: config.profile,
+    points_encoded: "false",
+    details: "average_speed",
+  })
+  params.append("point", `${from.lat},${from.lng}`)
+  params.append("point", `${to.lat},${to.lng}`)
+  if (config.apiKey) params.set("key", config.apiKey)
+  const data = await fetchJson(`${trimSlash(config.baseUrl)}/route?${params}`)
+  const path = at(data, "paths", 0)
+  // average_speed comes as [fromIndex, toIndex, km/h] intervals over the points
+  const speeds: number[] = []
+  for (const interval of list(at(path, "details", "average_speed"))) {
+    const start = num(at(interval, 0))
+    const end = num(at(interval, 1))
+    const kmh = num(at(interval, 2))
+    if (start === undefined || end === undefined || kmh === undefined) continue
+    for (let i = start; i < end; i++) speeds[i] = kmh / 3.6
+  }
+  return normalized(
+    lngLatCoords(at(path, "points", "coordinates")),
+    num(at(path, "distance")) ?? 0, // metres
+    (num(at(path, "time")) ?? 0) / 1000, // ms
+    speeds,
+  )
+}
+
+const ADAPTERS: Record<HttpEngine, Adapter> = { osrm, valhalla, graphhopper }
+
+async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn()
+    } catch (e) {
+      if (attempt === MAX_RETRIES) throw e
+      // exponential backoff + jitter
+      const backoff = 450 * Math.pow(2, attempt) + Math.random() * 250
+      await sleep(backoff)
+    }
+  }
+}
+
+export function createHttpRouteProvider(config: RoutingConfig & { engine: HttpEngine }): RouteProvider {
+  const adapter = ADAPTERS[config.engine]
+  return {
+    id: `${config.engine}:${config.baseUrl}:${config.profile}`,
+    route: (from, to) => withRetry(() => adapter(config, from, to)),
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Routing configuration
+ * Which routing backend the game talks to. Defaults come from the environment
+ * (NEXT_PUBLIC_ROUTING_ENGINE, NEXT_PUBLIC_ROUTING_URL, NEXT_PUBLIC_ROUTING_PROFILE,
+ * NEXT_PUBLIC_ROUTING_API_KEY); the settings on the start screen override them
+ * per browser.
+ */
+
+export type RoutingEngine = "osrm" | "valhalla" | "graphhopper" | "offline"
+
+export interface RoutingConfig {
+  engine: RoutingEngine
+  /** Server root, e.g. http://localhost:5000 for a local OSRM container */
+  baseUrl: string
+  /** Engine-specific vehicle profile: "driving" (OSRM), "auto" (Valhalla), "car" (GraphHopper) */
+  profile: string
+  /** Only needed for hosted GraphHopper */
+  apiKey?: string
+}
+
+export const ROUTING_ENGINES: { id: RoutingEngine; name: string }[] = [
+  { id: "osrm", name: "OSRM" },
+  { id: "valhalla", name: "Valhalla" },
+  { id: "graphhopper", name: "GraphHopper" },
+  { id: "offline", name: "Offline road graph" },
+]
+
+// Public demo servers; fine for casual play, rate limited
+export const ENGINE_DEFAULTS: Record<RoutingEngine, { baseUrl: string; profile: string }> = {
+  osrm: { baseUrl: "https://router.project-osrm.org", profile: "driving" },
+  valhalla: { baseUrl: "https://valhalla1.openstreetmap.de", profile: "auto" },
+  graphhopper: { baseUrl: "https://graphhopper.com/api/1", profile: "car" },
+  offline: { baseUrl: "", profile: "" },
+}
+
+const STORAGE_KEY = "emergency-city:routing"
+
+function isEngine(value: unknown): value is RoutingEngine {
+  return ROUTING_ENGINES.some((e) => e.id === value)
+}
+
+// NEXT_PUBLIC_* variables must be referenced literally to be inlined by Next
+function envConfig(): RoutingConfig {
+  const requested = process.env.NEXT_PUBLIC_ROUTING_ENGINE
+  const engine: RoutingEngine = isEngine(requested) ? requested : "osrm"
+  return {
+    engine,
+    baseUrl: process.env.NEXT_PUBLIC_ROUTING_URL || ENGINE_DEFAULTS[engine].baseUrl,
+    profile: process.env.NEXT_PUBLIC_ROUTING_PROFILE || ENGINE_DEFAULTS[engine].profile,
+    apiKey: process.env.NEXT_PUBLIC_ROUTING_API_KEY || undefined,
+  }
+}
+
+function storage(): Storage | null {
+  if (typeof window === "undefined") return null
+  try {
+    return window.localStorage
+  } catch {
+    return null
+  }
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined
+}
+
+/** Saved settings, falling back to the environment */
+export function readRoutingConfig(): RoutingConfig {
+  const fallback = envConfig()
+  const json = storage()?.getItem(STORAGE_KEY)
+  if (!json) return fallback
+  try {
+    const saved = JSON.parse(json)
+    if (!isEngine(saved?.engine)) return fallback
+    const defaults = ENGINE_DEFAULTS[saved.engine as RoutingEngine]
+    return {
+      engine: saved.engine,
+      baseUrl: text(saved.baseUrl) ?? defaults.baseUrl,
+      profile: text(saved.profile) ?? defaults.profile,
+      apiKey: text(saved.apiKey),
+    }
+  } catch {
+    return fallback
+  }
+}
+
+export function writeRoutingConfig(config: RoutingConfig) {
+  try {
+    storage()?.setItem(STORAGE_KEY, JSON.stringify(config))
+  } catch {
+    // Storage disabled: the setting only lasts for this page load
+  }
+}
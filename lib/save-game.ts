@@ -0,0 +1,258 @@
+/**
+ * Save games
+ * Versioned, JSON-serializable snapshots of a session, stored in named
+ * localStorage slots.
+ *
+ * Every snapshot carries `version`. When game-types.ts changes shape, bump
+ * SAVE_VERSION and register a migration that upgrades the previous version,
+ * so old saves keep loading.
+ */
+
+import type {
+  Building,
+  CityConfig,
+  Disaster,
+  DispatchLogEntry,
+  DispatchPolicies,
+  GameSpeed,
+  Mission,
+  PatientOutcome,
+  RoadClosure,
+  Vehicle,
+  WeatherSpell,
+} from "./game-types"
+import { hashSeed } from "./rng"
+
+export const SAVE_VERSION = 10
+
+export const AUTOSAVE_SLOT = "autosave"
+export const AUTOSAVE_INTERVAL_MS = 60 * 1000
+
+const STORAGE_PREFIX = "emergency-city:save:"
+const INDEX_KEY = "emergency-city:saves"
+
+export interface GameSnapshot {
+  version: number
+  savedAt: number        // real timestamp when the snapshot was taken
+  seed: string
+  rngState: { missions: number; driving: number; weather: number }
+  money: number
+  population: number
+  buildings: Building[]
+  vehicles: Vehicle[]    // includes routeCoords/routeIndex so units resume mid-route
+  missions: Mission[]
+  gameTime: number
+  gameStartTime: number
+  nextMissionAt: number
+  gameSpeed: GameSpeed
+  missionsCompleted: number
+  missionsFailed: number
+  patientOutcomes: Record<PatientOutcome, number>
+  weather: WeatherSpell[]
+  disasters: Disaster[]
+  roadClosures: RoadClosure[]
+  city: CityConfig
+  nextId: number
+  pendingRouteVehicleIds: string[] // vehicles waiting on a route fetch when saved
+  dispatchPolicies: DispatchPolicies
+  dispatchLog: DispatchLogEntry[]
+}
+
+export interface SaveSlotInfo {
+  slot: string
+  savedAt: number
+  cityName: string
+  gameTime: number
+  money: number
+}
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version-n snapshot to version n+1.
+// Snapshots are plain JSON, so migrations work on loosely typed records.
+type SnapshotRecord = Record<string, unknown>
+
+const MIGRATIONS: Record<number, (data: SnapshotRecord) => SnapshotRecord> = {
+  // v2: seeded RNG. Old saves get a seed derived from their save time.
+  1: (data) => {
+    const seed = `legacy-${data.savedAt}`
+    return {
+      ...data,
+      seed,
+      rngState: { missions: hashSeed(`${seed}:missions`), driving: hashSeed(`${seed}:driving`) },
+    }
+  },
+  // v3: mission spawns scheduled in game time
+  2: (data) => ({
+    ...data,
+    nextMissionAt: (data.gameTime as number) + 60 * 60000,
+  }),
+  // v4: auto-dispatch rules (off) and log
+  3: (data) => ({
+    ...data,
+    dispatchPolicies: {},
+    dispatchLog: [],
+  }),
+  // v5: phased incidents. Old missions become one phase with their old
+  // requirements, already as far along as their busiest unit on scene.
+  4: (data) => {
+    const vehicles = data.vehicles as { missionId?: string; status: string; workTimeRemaining: number }[]
+    return {
+      ...data,
+      missions: (data.missions as SnapshotRecord[]).map((m) => {
+        const workDuration = m.workDuration as number
+        const progress = vehicles
+          .filter((v) => v.missionId === m.id && v.status === "working")
+          .map((v) => workDuration - v.workTimeRemaining)
+        return {
+          ...m,
+          phases: [{ name: "On scene", duration: workDuration, requiredBuildings: m.requiredBuildings }],
+          phaseIndex: 0,
+          phaseProgress: Math.max((m.workDone as number | undefined) ?? 0, ...progress),
+          pressure: 0,
+          escalated: false,
+        }
+      }),
+    }
+  },
+  // v6: patient transport. Missions and beds in old saves simply have no patients yet.
+  5: (data) => ({
+    ...data,
+    patientOutcomes: { recovered: 0, complications: 0, lost: 0 },
+  }),
+  // v7: mission severity and response times. Old calls count as moderate
+  // (20 minute target); ones with a unit on scene responded by the time of saving.
+  // Auto-dispatch holds by severity instead of penalty, so old limits are dropped.
+  6: (data) => {
+    const vehicles = data.vehicles as { missionId?: string; status: string }[]
+    const policies = data.dispatchPolicies as Record<string, SnapshotRecord>
+    return {
+      ...data,
+      missions: (data.missions as SnapshotRecord[]).map((m) => ({
+        ...m,
+        severity: "moderate",
+        targetResponse: 20,
+        respondedAt: vehicles.some((v) => v.missionId === m.id && v.status === "working") ? data.gameTime : undefined,
+      })),
+      dispatchPolicies: Object.fromEntries(
+        Object.entries(policies).map(([type, { maxPenalty: _, ...policy }]) => [type, { ...policy, maxSeverity: null }]),
+      ),
+    }
+  },
+  // v8: cities keep their own clock for time-of-day incident patterns
+  7: (data) => {
+    const city = data.city as SnapshotRecord
+    return { ...data, city: { ...city, timeZone: LEGACY_TIME_ZONES[city.id as string] ?? "UTC" } }
+  },
+  // v9: weather. The forecast is rolled on the first step after loading.
+  8: (data) => ({
+    ...data,
+    rngState: { ...(data.rngState as SnapshotRecord), weather: hashSeed(`${data.seed}:weather`) },
+    weather: [],
+  }),
+  // v10: disasters and road closures
+  9: (data) => ({
+    ...data,
+    disasters: [],
+    roadClosures: [],
+  }),
+}
+
+// Time zones of the cities that existed before v8
+const LEGACY_TIME_ZONES: Record<string, string> = {
+  oslo: "Europe/Oslo",
+  copenhagen: "Europe/Copenhagen",
+  stockholm: "Europe/Stockholm",
+  helsinki: "Europe/Helsinki",
+  london: "Europe/London",
+  berlin: "Europe/Berlin",
+}
+
+export function migrateSnapshot(raw: unknown): GameSnapshot | null {
+  if (!raw || typeof raw !== "object") return null
+  let data = raw as SnapshotRecord
+  let version = typeof data.version === "number" ? data.version : 0
+
+  if (version > SAVE_VERSION) return null // saved by a newer build
+
+  while (version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) return null
+    data = { ...migrate(data), version: version + 1 }
+    version++
+  }
+
+  if (!data.city || !Array.isArray(data.buildings) || !Array.isArray(data.vehicles)) return null
+  return data as unknown as GameSnapshot
+}
+
+// --- localStorage slots ---
+
+function storage(): Storage | null {
+  if (typeof window === "undefined") return null
+  try {
+    return window.localStorage
+  } catch {
+    return null
+  }
+}
+
+function readIndex(store: Storage): SaveSlotInfo[] {
+  try {
+    const parsed = JSON.parse(store.getItem(INDEX_KEY) ?? "[]")
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+function writeIndex(store: Storage, index: SaveSlotInfo[]) {
+  store.setItem(INDEX_KEY, JSON.stringify(index))
+}
+
+export function writeSaveSlot(slot: string, snapshot: GameSnapshot): boolean {
+  const store = storage()
+  if (!store) return false
+
+  const info: SaveSlotInfo = {
+    slot,
+    savedAt: snapshot.savedAt,
+    cityName: snapshot.city.name,
+    gameTime: snapshot.gameTime,
+    money: snapshot.money,
+  }
+
+  try {
+    store.setItem(STORAGE_PREFIX + slot, JSON.stringify(snapshot))
+    writeIndex(store, [...readIndex(store).filter((s) => s.slot !== slot), info])
+    return true
+  } catch {
+    // Quota exceeded or storage disabled
+    return false
+  }
+}
+
+export function readSaveSlot(slot: string): GameSnapshot | null {
+  const store = storage()
+  if (!store) return null
+  const json = store.getItem(STORAGE_PREFIX + slot)
+  if (!json) return null
+  try {
+    return migrateSnapshot(JSON.parse(json))
+  } catch {
+    return null
+  }
+}
+
+export function deleteSaveSlot(slot: string) {
+  const store = storage()
+  if (!store) return
+  store.removeItem(STORAGE_PREFIX + slot)
+  writeIndex(store, readIndex(store).filter((s) => s.slot !== slot))
+}
+
+/** Saved slots, most recent first */
+export function listSaveSlots(): SaveSlotInfo[] {
+  const store = storage()
+  if (!store) return []
+  return readIndex(store).sort((a, b) => b.savedAt - a.savedAt)
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { SimulationEngine, INITIAL_STATE } from "./simulation-engine"
+import { CITY_OPTIONS } from "./game-types"
+import type { BuildingType } from "./game-types"
+import { straightLineRoute } from "./route-service"
+
+const START = Date.UTC(2025, 5, 1, 6)
+const STEPS_PER_HOUR = 3600 // one fixed step is one game second
+
+// A city with every service near the centre. Routes are straight lines and
+// resolve at once, and the clock stands still, so only the seed decides what happens.
+function createCity(seed: string) {
+  const engine = new SimulationEngine(INITIAL_STATE, {
+    seed,
+    clock: { now: () => START },
+    getRoute: (from, to) => straightLineRoute(from, to),
+  })
+  const city = CITY_OPTIONS[0]
+  engine.setCity(city)
+  engine.start()
+  const services: BuildingType[] = [
+    "fire-station",
+    "police-station",
+    "ambulance-station",
+    "hospital",
+    "road-authority",
+    "morgue",
+  ]
+  services.forEach((type, i) => {
+    const position = { lat: city.center.lat + 0.004 * Math.cos(i), lng: city.center.lng + 0.004 * Math.sin(i) }
+    engine.execute({ type: "placeBuilding", buildingType: type, position, size: "large" })
+  })
+  return engine
+}
+
+// Send the recommended units to every call as soon as it comes in
+function runHours(engine: SimulationEngine, hours: number) {
+  for (let i = 0; i < hours * 60; i++) {
+    engine.runSteps(STEPS_PER_HOUR / 60)
+    for (const m of engine.getState().missions) {
+      if (m.status === "pending") engine.execute({ type: "dispatchVehicle", missionId: m.id })
+    }
+  }
+}
+
+test("a staffed city handles its calls over two game days", () => {
+  const engine = createCity("engine-test")
+  const before = engine.getState()
+  runHours(engine, 48)
+  const state = engine.getState()
+
+  assert.equal(state.gameTime - before.gameTime, 48 * 3600 * 1000)
+  assert.equal(state.gameOver, false)
+  assert.ok(state.missionsCompleted > 10, `only ${state.missionsCompleted} calls completed`)
+  assert.ok(state.missionsCompleted > 4 * state.missionsFailed, `${state.missionsFailed} calls failed`)
+  assert.ok(state.money > before.money, "the city lost money")
+})
+
+test("an unstaffed city fails its calls and pays for them", () => {
+  const engine = new SimulationEngine(INITIAL_STATE, { seed: "engine-test", clock: { now: () => START } })
+  engine.setCity(CITY_OPTIONS[0])
+  engine.start()
+  const before = engine.getState()
+  runHours(engine, 24)
+  const state = engine.getState()
+
+  assert.equal(state.missionsCompleted, 0)
+  assert.ok(state.missionsFailed > 0)
+  assert.ok(state.money < before.money)
+})
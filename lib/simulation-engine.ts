@@ -0,0 +1,2096 @@
+/**
+ * Simulation Engine
+ * All game rules (economy, dispatch, vehicle movement, missions) in one
+ * framework-free class. It has no React, no timers and never reads the wall
+ * clock on its own: time only moves through step(), randomness comes from
+ * RNG streams seeded by `state.seed` and routes from the injected router. That
+ * makes it possible to run thousands of simulated hours headless in Node.
+ *
+ * Player commands go through execute(), which also records them (with the
+ * route lookups and traffic samples the session consumed) into a replay log.
+ *
+ * game-store.ts wraps a single instance and exposes it to React.
+ */
+
+import type {
+  GameState,
+  GameSpeed,
+  Building,
+  Mission,
+  Vehicle,
+  BuildingType,
+  BuildingSize,
+  BuildingUpgradeId,
+  MissionType,
+  LatLng,
+  VehicleStatus,
+  CityConfig,
+  CityZone,
+  MissionPhase,
+  DispatchPolicy,
+  DispatchLogEntry,
+  Patient,
+  WeatherKind,
+  WeatherSpell,
+  Disaster,
+  DisasterKind,
+  RoadClosure,
+  PatientOutcome,
+  PatientSeverity,
+  PatientTransport,
+} from "./game-types"
+import {
+  BUILDING_CONFIGS,
+  BUILDING_UPGRADES,
+  CARE_FACILITIES,
+  CITY_ZONES,
+  MISSION_CONFIGS,
+  MISSION_SEVERITY,
+  MORGUE_OVERFLOW_FEE,
+  PATIENT_CARE,
+  PATIENT_OUTCOME_PAY,
+  PATIENT_REWARD_SHARE,
+  REMAINS_STAY_MINUTES,
+  SEVERITY_LEVELS,
+  TRANSPORT_BUILDINGS,
+  ZONE_PROFILES,
+  bedCapacity,
+  phaseRequirements,
+  transportUnits,
+  responseScore,
+  zoneActivity,
+  dayPhase,
+  hourlyCurve,
+  INCIDENT_RATE_BY_HOUR,
+  DISASTER_CONFIGS,
+  WEATHER_CONFIGS,
+  CITY_CLIMATES,
+  DEFAULT_CLIMATE,
+  weatherIncidentRate,
+  cityHasUpgrade,
+} from "./game-types"
+import type { GameSnapshot } from "./save-game"
+import { SAVE_VERSION } from "./save-game"
+import type { ResolvedRoute } from "./route-service"
+import { straightLineRoute } from "./route-service"
+import { DEFAULT_SPEED_KMH, distanceMeters } from "./geo"
+import type { GameCommand, ReplayEntry, ReplayEntryData, ReplayLog } from "./replay"
+import { REPLAY_VERSION } from "./replay"
+import type { Rng } from "./rng"
+import { createRng, hashSeed } from "./rng"
+import { FIXED_STEP_MINUTES } from "./game-clock"
+import { hourOfDay } from "./time-utils"
+
+export interface SimulationClock {
+  /** Real-world timestamp in ms (only used to stamp new games and saves) */
+  now(): number
+}
+
+/**
+ * Resolves a road route. May answer synchronously (headless/offline routers)
+ * or asynchronously (network routers); the engine handles both.
+ */
+export type RouteResolver = (from: LatLng, to: LatLng) => ResolvedRoute | Promise<ResolvedRoute>
+
+export interface SimulationOptions {
+  clock?: SimulationClock
+  /** RNG seed; every random decision in the engine derives from it */
+  seed?: string
+  getRoute?: RouteResolver
+  /** Immediate route used while the real one is fetched (returning vehicles) */
+  fallbackRoute?: (from: LatLng, to: LatLng, random: () => number) => ResolvedRoute
+  /** NPC traffic density (0-1) at a position, slows emergency vehicles */
+  getTrafficDensity?: (lat: number, lng: number) => number
+  /** An already-known route, without fetching; refines dispatch travel estimates */
+  peekRoute?: (from: LatLng, to: LatLng) => ResolvedRoute | null
+  /**
+   * Replay playback: routes and traffic come only from deliverRoute() and
+   * applyTrafficSample(), and nothing is recorded
+   */
+  replay?: boolean
+}
+
+export const INITIAL_STATE: GameState = {
+  seed: "",
+  money: 50000,
+  population: 0,
+  buildings: [],
+  missions: [],
+  vehicles: [],
+  gameTime: 0,
+  gameStartTime: 0,
+  nextMissionAt: 0,
+  gameSpeed: 1,
+  isPaused: true,
+  gameOver: false,
+  selectedBuildingId: null,
+  selectedMissionId: null,
+  placingBuilding: null,
+  managingBuildingId: null,
+  missionsCompleted: 0,
+  missionsFailed: 0,
+  patientOutcomes: { recovered: 0, complications: 0, lost: 0 },
+  weather: [],
+  disasters: [],
+  roadClosures: [],
+  city: null,
+  newMissions: [],
+  unreadMissionCount: 0,
+  dispatchPolicies: {},
+  dispatchLog: [],
+}
+
+const MAX_ACTIVE_MISSIONS = 5
+const FORECAST_SPELLS = 3 // weather spells known ahead, the current one included
+// Disasters only strike once the player has proven themselves, and then rarely
+const DISASTER_MIN_COMPLETED = 10
+const DISASTER_CHANCE_PER_HOUR = 0.02
+const DISASTER_HISTORY = 5 // finished disasters kept for their summaries
+const CLOSURE_RADIUS = 60 // metres
+const CLOSURE_SPEED_FACTOR = 0.3 // units still get through a closed road, slowly
+const UNREPAIRED_CLOSURE_HOURS = 4 // a road left closed by a failed call reopens after this
+const PREEMPTED_TRAFFIC_SHARE = 0.5 // of the traffic slowdown left when signals turn green for a unit
+// Incident types that come in on their own (fatality recoveries only follow other calls)
+const RANDOM_MISSION_TYPES: MissionType[] = ["fire", "traffic-accident", "medical-emergency", "crime", "infrastructure"]
+// Random delay between mission spawns (game minutes)
+const MISSION_SPAWN_MIN_DELAY = 30
+const MISSION_SPAWN_MAX_DELAY = 180
+const PREPARATION_TIME = 10 // game minutes a unit waits for its route before rolling
+const DISPATCH_LOG_LIMIT = 50
+// Share of full speed a phase still progresses at when the units on scene
+// cover none of what it needs
+const MIN_PHASE_RATE = 0.25
+
+// Vehicle movement: metres per game second along routeCoords, at the speed the
+// router gave for each segment
+const DEFAULT_SPEED_MS = DEFAULT_SPEED_KMH / 3.6
+const BRAKING_DISTANCE = 100 // metres before the destination where units slow down
+// Travel-time estimate before a route is known: roads are ~30% longer than
+// the straight line
+const ROAD_DETOUR_FACTOR = 1.3
+
+/** Rough travel time in seconds, for ETAs before the real route is known */
+export function estimateTravelSeconds(from: LatLng, to: LatLng): number {
+  return (distanceMeters(from, to) * ROAD_DETOUR_FACTOR) / DEFAULT_SPEED_MS
+}
+
+function segmentSpeed(v: Vehicle, segment: number): number {
+  return v.routeSpeeds?.[segment] ?? DEFAULT_SPEED_MS
+}
+
+/** Distance and nominal driving time left along the vehicle's route */
+function remainingRoute(v: Vehicle): { meters: number; seconds: number } {
+  const coords = v.routeCoords
+  const current = Math.floor(v.routeIndex)
+  let meters = 0
+  let seconds = 0
+  for (let i = current; i < coords.length - 1; i++) {
+    const part = i === current ? 1 - (v.routeIndex - i) : 1
+    const segmentMeters = distanceMeters(coords[i], coords[i + 1]) * part
+    meters += segmentMeters
+    seconds += segmentMeters / segmentSpeed(v, i)
+  }
+  return { meters, seconds }
+}
+
+// Share (0-1) of a phase's required units that are on scene, matching each
+// unit on scene to at most one requirement
+function phaseCoverage(phase: MissionPhase | undefined, onScene: BuildingType[]): number {
+  if (!phase || phase.requiredBuildings.length === 0) return 1
+  const available = [...onScene]
+  let covered = 0
+  for (const type of phase.requiredBuildings) {
+    const i = available.indexOf(type)
+    if (i >= 0) {
+      available.splice(i, 1)
+      covered++
+    }
+  }
+  return covered / phase.requiredBuildings.length
+}
+
+/** A unit of a type a mission needs, with its estimated travel time there */
+export interface DispatchCandidate {
+  vehicleId: string
+  vehicleType: string
+  status: VehicleStatus // only idle units can be dispatched; busy ones can be reassigned
+  missionId?: string     // mission the unit is on now
+  buildingId: string
+  buildingName: string
+  buildingType: BuildingType
+  distance: number   // metres, straight line
+  etaSeconds: number // from a cached route when there is one, else estimated
+}
+
+// Separate RNG streams per concern, so e.g. how many vehicles are driving
+// never changes which missions spawn next
+function missionRngSeed(seed: string) {
+  return hashSeed(`${seed}:missions`)
+}
+function drivingRngSeed(seed: string) {
+  return hashSeed(`${seed}:driving`)
+}
+function weatherRngSeed(seed: string) {
+  return hashSeed(`${seed}:weather`)
+}
+
+// Clamp a position so it never drifts outside the visible city bounds
+function clampToCity(pos: LatLng, center: LatLng, latSpan: number, lngSpan: number): LatLng {
+  return {
+    lat: Math.max(center.lat - latSpan, Math.min(center.lat + latSpan, pos.lat)),
+    lng: Math.max(center.lng - lngSpan, Math.min(center.lng + lngSpan, pos.lng)),
+  }
+}
+
+export class SimulationEngine {
+  private state: GameState
+  private nextId = 1
+  // Vehicles waiting on a route lookup, with what to do once it arrives
+  private readonly pendingRoutes = new Map<string, (route: ResolvedRoute) => void>()
+  private readonly listeners = new Set<() => void>()
+  // While > 0, changes are collected and announced once at the end (runSteps)
+  private batchDepth = 0
+  private changedInBatch = false
+
+  private readonly missionRng: Rng
+  private readonly drivingRng: Rng
+  private readonly weatherRng: Rng
+
+  private readonly clock: SimulationClock
+  private readonly router: RouteResolver
+  private readonly fallbackRoute: (from: LatLng, to: LatLng, random: () => number) => ResolvedRoute
+  private readonly trafficDensity: (lat: number, lng: number) => number
+  private readonly peekRoute: (from: LatLng, to: LatLng) => ResolvedRoute | null
+
+  // --- Replay recording ---
+  private readonly replayMode: boolean
+  private recording: { base: GameSnapshot; entries: ReplayEntry[] } | null = null
+  // Fixed steps completed since recording began; stamps every entry
+  private stepCount = 0
+  // Last traffic density seen per vehicle; only changes are recorded
+  private readonly trafficSamples = new Map<string, number>()
+
+  constructor(initialState: GameState = INITIAL_STATE, options: SimulationOptions = {}) {
+    const seed = options.seed ?? initialState.seed
+    this.state = { ...initialState, seed }
+    this.missionRng = createRng(missionRngSeed(seed))
+    this.drivingRng = createRng(drivingRngSeed(seed))
+    this.weatherRng = createRng(weatherRngSeed(seed))
+    this.clock = options.clock ?? { now: () => Date.now() }
+    this.router = options.getRoute ?? ((from, to) => straightLineRoute(from, to))
+    this.fallbackRoute = options.fallbackRoute ?? straightLineRoute
+    this.trafficDensity = options.getTrafficDensity ?? (() => 0)
+    this.peekRoute = options.peekRoute ?? (() => null)
+    this.replayMode = options.replay ?? false
+  }
+
+  // --- State access ---
+
+  getState(): GameState {
+    return this.state
+  }
+
+  /** Replace the whole state (UI selection changes, loading) */
+  setState(next: GameState) {
+    this.state = next
+    this.emit()
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private emit() {
+    if (this.batchDepth > 0) {
+      this.changedInBatch = true
+      return
+    }
+    for (const l of this.listeners) l()
+  }
+
+  private genId(prefix: string) {
+    return `${prefix}-${this.nextId++}`
+  }
+
+  // --- Session lifecycle ---
+
+  /** Reseed every RNG stream; call before start() for a reproducible session */
+  setSeed(seed: string) {
+    this.missionRng.setState(missionRngSeed(seed))
+    this.drivingRng.setState(drivingRngSeed(seed))
+    this.weatherRng.setState(weatherRngSeed(seed))
+    this.setState({ ...this.state, seed })
+  }
+
+  setCity(city: CityConfig) {
+    this.setState({ ...this.state, city, population: city.population })
+  }
+
+  start() {
+    const now = this.clock.now()
+    this.setState({
+      ...this.state,
+      gameTime: now,
+      gameStartTime: now,
+      nextMissionAt: now + this.nextMissionDelay(now) * 60000,
+      weather: this.forecastWeather([], now),
+      isPaused: false,
+    })
+    this.beginRecording()
+  }
+
+  setPaused(isPaused: boolean) {
+    this.setState({ ...this.state, isPaused })
+  }
+
+  setGameSpeed(gameSpeed: GameSpeed) {
+    this.setState({ ...this.state, gameSpeed })
+  }
+
+  reset() {
+    this.nextId = 1
+    this.pendingRoutes.clear()
+    this.recording = null
+    this.setState({ ...INITIAL_STATE, seed: this.state.seed, buildings: [], missions: [], vehicles: [], city: null, newMissions: [], unreadMissionCount: 0, dispatchPolicies: {}, dispatchLog: [] })
+  }
+
+  toSnapshot(): GameSnapshot | null {
+    const s = this.state
+    if (!s.city) return null
+    return {
+      version: SAVE_VERSION,
+      savedAt: this.clock.now(),
+      seed: s.seed,
+      rngState: {
+        missions: this.missionRng.getState(),
+        driving: this.drivingRng.getState(),
+        weather: this.weatherRng.getState(),
+      },
+      money: s.money,
+      population: s.population,
+      buildings: s.buildings,
+      vehicles: s.vehicles,
+      missions: s.missions,
+      gameTime: s.gameTime,
+      gameStartTime: s.gameStartTime,
+      nextMissionAt: s.nextMissionAt,
+      gameSpeed: s.gameSpeed,
+      missionsCompleted: s.missionsCompleted,
+      missionsFailed: s.missionsFailed,
+      patientOutcomes: s.patientOutcomes,
+      weather: s.weather,
+      disasters: s.disasters,
+      roadClosures: s.roadClosures,
+      city: s.city,
+      nextId: this.nextId,
+      pendingRouteVehicleIds: [...this.pendingRoutes.keys()],
+      dispatchPolicies: s.dispatchPolicies,
+      dispatchLog: s.dispatchLog,
+    }
+  }
+
+  loadSnapshot(snapshot: GameSnapshot) {
+    this.pendingRoutes.clear()
+    this.recording = null
+    this.nextId = snapshot.nextId
+    this.missionRng.setState(snapshot.rngState.missions)
+    this.drivingRng.setState(snapshot.rngState.driving)
+    this.weatherRng.setState(snapshot.rngState.weather)
+    this.setState({
+      ...INITIAL_STATE,
+      seed: snapshot.seed,
+      money: snapshot.money,
+      population: snapshot.population,
+      buildings: snapshot.buildings,
+      vehicles: snapshot.vehicles,
+      missions: snapshot.missions,
+      gameTime: snapshot.gameTime,
+      gameStartTime: snapshot.gameStartTime,
+      nextMissionAt: snapshot.nextMissionAt,
+      gameSpeed: snapshot.gameSpeed,
+      missionsCompleted: snapshot.missionsCompleted,
+      missionsFailed: snapshot.missionsFailed,
+      patientOutcomes: snapshot.patientOutcomes,
+      weather: snapshot.weather,
+      disasters: snapshot.disasters,
+      roadClosures: snapshot.roadClosures,
+      city: snapshot.city,
+      isPaused: false,
+      newMissions: [],
+      unreadMissionCount: 0,
+      dispatchPolicies: snapshot.dispatchPolicies,
+      dispatchLog: snapshot.dispatchLog,
+    })
+    this.resumePendingRoutes(snapshot.pendingRouteVehicleIds)
+    // After resuming, so the base snapshot lists the routes still in flight
+    this.beginRecording()
+  }
+
+  // Route lookups do not survive a reload: ask again for every vehicle that was
+  // waiting on one, so it resumes instead of freezing in place.
+  private resumePendingRoutes(pendingVehicleIds: string[]) {
+    const pending = new Set(pendingVehicleIds)
+    for (const v of this.state.vehicles) {
+      if (v.status === "preparing" || (v.status === "dispatched" && pending.has(v.id))) {
+        const mission = this.state.missions.find((m) => m.id === v.missionId)
+        if (mission) this.requestDispatchRoute(v.id, mission.id, v.position, mission.position)
+      } else if (v.status === "returning" && pending.has(v.id)) {
+        const building = this.state.buildings.find((b) => b.id === v.buildingId)
+        if (building) this.requestReturnRoute(v.id, v.position, building.position)
+      } else if (v.status === "transporting" && pending.has(v.id)) {
+        const facilityId = v.patient?.facilityId ?? v.remains?.facilityId
+        const facility = this.state.buildings.find((b) => b.id === facilityId)
+        if (facility) this.requestReturnRoute(v.id, v.position, facility.position, "transporting")
+      }
+    }
+  }
+
+  // --- Routing ---
+
+  private resolveRoute(vehicleId: string, from: LatLng, to: LatLng, apply: (route: ResolvedRoute) => void) {
+    this.pendingRoutes.set(vehicleId, apply)
+    // During playback the route arrives from the log, at the recorded step
+    if (this.replayMode) return
+
+    const result = this.router(from, to)
+    if (!(result instanceof Promise)) {
+      this.deliverRoute(vehicleId, result)
+    } else {
+      // A newer request for the same vehicle supersedes this one. When the
+      // router fails, the vehicle drives the fallback route instead; failures
+      // come at no fixed step, so its jitter must not draw on the driving RNG.
+      result.then(
+        (route) => {
+          if (this.pendingRoutes.get(vehicleId) === apply) this.deliverRoute(vehicleId, route)
+        },
+        () => {
+          if (this.pendingRoutes.get(vehicleId) !== apply) return
+          const random = createRng(hashSeed(`${this.state.seed}:${vehicleId}:fallback`)).next
+          this.deliverRoute(vehicleId, this.fallbackRoute(from, to, random))
+        },
+      )
+    }
+  }
+
+  /** Hand a resolved route to the vehicle waiting for it (replays call this directly) */
+  deliverRoute(vehicleId: string, route: ResolvedRoute) {
+    const apply = this.pendingRoutes.get(vehicleId)
+    if (!apply) return
+    this.pendingRoutes.delete(vehicleId)
+    this.record({ kind: "route", vehicleId, route })
+    apply(route)
+  }
+
+  // Route for a vehicle heading out to a mission. A vehicle at the station stays
+  // "preparing" until the route resolves, then switches to "dispatched"; one
+  // redirected on the road drives a fallback route meanwhile and swaps it out.
+  private requestDispatchRoute(vehicleId: string, missionId: string, from: LatLng, to: LatLng) {
+    this.resolveRoute(vehicleId, from, to, (route) => {
+      // Read current vehicle state: it may have changed while the route was pending
+      const currentVeh = this.state.vehicles.find((v) => v.id === vehicleId)
+      if (!currentVeh || currentVeh.missionId !== missionId) return
+      if (currentVeh.status !== "preparing" && currentVeh.status !== "dispatched") return
+
+      const nextVehicles = this.state.vehicles.map((v) =>
+        v.id === vehicleId
+          ? {
+              ...v,
+              status: "dispatched" as VehicleStatus,
+              routeCoords: route.coords,
+              routeSpeeds: route.speeds,
+              routeIndex: 0,
+              eta: this.state.gameTime + route.duration * 1000,
+              preparationTimeRemaining: undefined,
+            }
+          : v,
+      )
+      this.setState({
+        ...this.state,
+        vehicles: nextVehicles,
+        buildings: this.syncBuildingsWithVehicles(nextVehicles),
+      })
+    })
+  }
+
+  // Real road route for a vehicle heading home, or taking a patient to a bed.
+  // It already drives a fallback route meanwhile, so the result simply replaces that.
+  private requestReturnRoute(vehicleId: string, from: LatLng, to: LatLng, status: VehicleStatus = "returning") {
+    this.resolveRoute(vehicleId, from, to, (route) => {
+      const currentVeh = this.state.vehicles.find((v) => v.id === vehicleId)
+      if (!currentVeh || currentVeh.status !== status) return
+      this.setState({
+        ...this.state,
+        vehicles: this.state.vehicles.map((v) =>
+          v.id === vehicleId
+            ? {
+                ...v,
+                routeCoords: route.coords,
+                routeSpeeds: route.speeds,
+                routeIndex: 0,
+                eta: this.state.gameTime + route.duration * 1000,
+              }
+            : v,
+        ),
+      })
+    })
+  }
+
+  // Helper: sync buildings[].vehicles with state.vehicles after each update
+  private syncBuildingsWithVehicles(nextVehicles: Vehicle[]) {
+    const byBuilding = new Map<string, Vehicle[]>()
+    for (const v of nextVehicles) {
+      const arr = byBuilding.get(v.buildingId) ?? []
+      arr.push(v)
+      byBuilding.set(v.buildingId, arr)
+    }
+
+    return this.state.buildings.map((b) => ({
+      ...b,
+      vehicles: (byBuilding.get(b.id) ?? []).map((v) => ({ ...v })),
+    }))
+  }
+
+  // Drive `dtGameMinutes` worth of game seconds along the route. `now` is the
+  // game time at the end of the step, for the ETA.
+  private moveVehicleAlongRoute(v: Vehicle, dtGameMinutes: number, now: number): Vehicle {
+    const coords = v.routeCoords
+    if (coords.length === 0 || v.routeIndex >= coords.length - 1) {
+      return v
+    }
+
+    // Small random variation for realistic driving (97-103%)
+    const randomVariation = 0.97 + this.drivingRng.next() * 0.06
+
+    // Traffic density slowdown: up to 40% slower where traffic can't make way,
+    // half that for a unit on a call when signal pre-emption clears the junctions
+    const trafficDensity = this.sampleTraffic(v)
+    const preempted = v.status === "dispatched" && cityHasUpgrade(this.state.buildings, "signal-preemption")
+    const trafficFactor = 1.0 - trafficDensity * 0.4 * (preempted ? PREEMPTED_TRAFFIC_SHARE : 1) // 60-100% speed
+
+    // Rain, snow and ice slow everyone down, and closed roads more so
+    const weatherFactor = this.weatherSpeedFactor()
+    const closureFactor = this.state.roadClosures.some((c) => distanceMeters(v.position, c.position) < c.radius)
+      ? CLOSURE_SPEED_FACTOR
+      : 1
+
+    // Braking near destination
+    const metersToGo = remainingRoute(v).meters
+    const brakingFactor = metersToGo < BRAKING_DISTANCE ? 0.25 + (metersToGo / BRAKING_DISTANCE) * 0.75 : 1.0
+
+    let secondsLeft = dtGameMinutes * 60
+    let index = v.routeIndex
+    while (secondsLeft > 0 && index < coords.length - 1) {
+      const segment = Math.floor(index)
+      const segmentLength = distanceMeters(coords[segment], coords[segment + 1])
+      if (segmentLength === 0) {
+        index = segment + 1
+        continue
+      }
+
+      const speed =
+        segmentSpeed(v, segment) * randomVariation * trafficFactor * weatherFactor * closureFactor * brakingFactor
+      const metersOnSegment = segmentLength * (segment + 1 - index)
+      const secondsOnSegment = metersOnSegment / speed
+      if (secondsOnSegment <= secondsLeft) {
+        index = segment + 1
+        secondsLeft -= secondsOnSegment
+      } else {
+        index += (secondsLeft * speed) / segmentLength
+        secondsLeft = 0
+      }
+    }
+    index = Math.min(index, coords.length - 1)
+
+    // Interpolate between the two closest route points for smooth movement
+    const flooredIdx = Math.floor(index)
+    const nextIdx = Math.min(flooredIdx + 1, coords.length - 1)
+    const frac = index - flooredIdx
+    const p0 = coords[flooredIdx]
+    const p1 = coords[nextIdx]
+    const pos = {
+      lat: p0.lat + (p1.lat - p0.lat) * frac,
+      lng: p0.lng + (p1.lng - p0.lng) * frac,
+    }
+
+    const moved = { ...v, position: pos, routeIndex: index }
+    return { ...moved, eta: now + (remainingRoute(moved).seconds / weatherFactor) * 1000 }
+  }
+
+  // NPC traffic is not part of the simulation, so the density each vehicle saw
+  // goes into the replay log whenever it changes
+  private sampleTraffic(v: Vehicle): number {
+    if (this.replayMode) return this.trafficSamples.get(v.id) ?? 0
+    const density = this.trafficDensity(v.position.lat, v.position.lng)
+    if (this.trafficSamples.get(v.id) !== density) {
+      this.trafficSamples.set(v.id, density)
+      this.record({ kind: "traffic", vehicleId: v.id, density })
+    }
+    return density
+  }
+
+  /** Replay playback: the traffic density a vehicle saw from this step on */
+  applyTrafficSample(vehicleId: string, density: number) {
+    this.trafficSamples.set(vehicleId, density)
+  }
+
+  // --- Replay recording ---
+
+  private beginRecording() {
+    this.stepCount = 0
+    this.trafficSamples.clear()
+    const base = this.replayMode ? null : this.toSnapshot()
+    this.recording = base ? { base, entries: [] } : null
+  }
+
+  private record(entry: ReplayEntryData) {
+    this.recording?.entries.push({ ...entry, step: this.stepCount, gameTime: this.state.gameTime })
+  }
+
+  /** Everything needed to re-simulate the session so far, or null if none is running */
+  getReplayLog(): ReplayLog | null {
+    if (!this.recording) return null
+    return {
+      version: REPLAY_VERSION,
+      recordedAt: this.clock.now(),
+      base: this.recording.base,
+      entries: [...this.recording.entries],
+      totalSteps: this.stepCount,
+    }
+  }
+
+  // --- Missions ---
+
+  // Where the next incident happens and what it is: every zone and incident
+  // type pair is weighted by the zone's profile at the current hour in the city,
+  // and by the citywide mix for the phase of day and the weather
+  private pickIncident(city: CityConfig): { type: MissionType; zone: CityZone | null } {
+    const zones = CITY_ZONES[city.id] ?? []
+    const hour = hourOfDay(this.state.gameTime, city.timeZone)
+    const { mix } = dayPhase(hour)
+    const weather = this.currentWeather()
+    const typeWeight = (type: MissionType) => (mix[type] ?? 1) * weatherIncidentRate(weather, type)
+    if (zones.length === 0) {
+      return { type: this.missionRng.pickWeighted(RANDOM_MISSION_TYPES, typeWeight), zone: null }
+    }
+
+    const options = zones.flatMap((zone) =>
+      RANDOM_MISSION_TYPES.map((type) => ({
+        zone,
+        type,
+        weight: (ZONE_PROFILES[zone.kind].weights[type] ?? 0) * zoneActivity(zone.kind, type, hour) * typeWeight(type),
+      })),
+    )
+    const { type, zone } = this.missionRng.pickWeighted(options, (o) => o.weight)
+    return { type, zone }
+  }
+
+  // A spot inside a district, or somewhere along a highway. Cities without
+  // zones fall back to a spread around the centre.
+  // ~0.01 degree ~ 1.1 km at these latitudes.
+  private zonePosition(city: CityConfig, zone: CityZone | null): LatLng {
+    const center: LatLng = city.center
+
+    // Half-span of the city bounds (in degrees) - used to clamp positions
+    const latSpan = (city.bounds.north - city.bounds.south) / 2
+    const lngSpan = (city.bounds.east - city.bounds.west) / 2
+
+    let position: LatLng
+    if (!zone) {
+      position = {
+        lat: center.lat + (this.missionRng.next() - 0.5) * latSpan * 1.2,
+        lng: center.lng + (this.missionRng.next() - 0.5) * lngSpan * 1.2,
+      }
+    } else if (zone.kind === "highway") {
+      const i = this.missionRng.int(zone.path.length - 1)
+      const t = this.missionRng.next()
+      const from = zone.path[i]
+      const to = zone.path[i + 1]
+      position = {
+        lat: from.lat + (to.lat - from.lat) * t + (this.missionRng.next() - 0.5) * 0.0004,
+        lng: from.lng + (to.lng - from.lng) * t + (this.missionRng.next() - 0.5) * 0.0004,
+      }
+    } else {
+      const { north, south, east, west } = zone.bounds
+      position = {
+        lat: south + this.missionRng.next() * (north - south),
+        lng: west + this.missionRng.next() * (east - west),
+      }
+    }
+    return clampToCity(position, center, latSpan, lngSpan)
+  }
+
+  // Game minutes until the next mission should spawn, shorter at the busy
+  // hours of the city's day and in bad weather
+  private nextMissionDelay(now: number): number {
+    const delay = MISSION_SPAWN_MIN_DELAY + this.missionRng.next() * (MISSION_SPAWN_MAX_DELAY - MISSION_SPAWN_MIN_DELAY)
+    const city = this.state.city
+    if (!city) return delay
+    const weather = this.currentWeather()
+    const weatherRate =
+      RANDOM_MISSION_TYPES.reduce((sum, type) => sum + weatherIncidentRate(weather, type), 0) / RANDOM_MISSION_TYPES.length
+    return delay / (hourlyCurve(INCIDENT_RATE_BY_HOUR, hourOfDay(now, city.timeZone)) * weatherRate)
+  }
+
+  // --- Weather ---
+
+  private currentWeather(): WeatherKind {
+    return this.state.weather[0]?.kind ?? "clear"
+  }
+
+  private weatherSpeedFactor(): number {
+    return WEATHER_CONFIGS[this.currentWeather()].speedFactor
+  }
+
+  // Drops spells that are over and rolls new ones until the forecast is full.
+  // Each spell is drawn from the city's climate, limited to its season.
+  private forecastWeather(spells: WeatherSpell[], now: number): WeatherSpell[] {
+    const forecast = spells.filter((spell) => spell.until > now)
+    const climate = (this.state.city && CITY_CLIMATES[this.state.city.id]) ?? DEFAULT_CLIMATE
+    while (forecast.length < FORECAST_SPELLS) {
+      const previous = forecast.at(-1)
+      const from = previous?.until ?? now
+      const month = new Date(from).getUTCMonth() + 1
+      const kind = this.weatherRng.pickWeighted(Object.keys(WEATHER_CONFIGS) as WeatherKind[], (kind) => {
+        const config = WEATHER_CONFIGS[kind]
+        if (config.months && !config.months.includes(month)) return 0
+        if (kind === previous?.kind) return 0
+        return climate[kind] * (previous && config.follows?.includes(previous.kind) ? 2 : 1)
+      })
+      const [minHours, maxHours] = WEATHER_CONFIGS[kind].hours
+      const hours = minHours + this.weatherRng.next() * (maxHours - minHours)
+      forecast.push({ kind, from, until: from + hours * 3600000 })
+    }
+    return forecast
+  }
+
+  generateMission(): Mission | null {
+    const state = this.state
+    if (!state.city || state.isPaused || state.gameOver) return null
+
+    // Check current active missions to ensure we don't exceed the cap; a
+    // disaster's incidents come on top of the usual ones
+    const activeMissions = state.missions.filter(
+      (m) => (m.status === "pending" || m.status === "dispatched") && !m.disasterId
+    ).length
+    if (activeMissions >= MAX_ACTIVE_MISSIONS) return null
+
+    const { type, zone } = this.pickIncident(state.city)
+    const config = MISSION_CONFIGS[type]
+    const titleIndex = this.missionRng.int(config.titles.length)
+    const mission = {
+      ...this.buildMission(type, this.zonePosition(state.city, zone), state.gameTime),
+      title: config.titles[titleIndex],
+      description: config.descriptions[titleIndex],
+      zone: zone?.name,
+    }
+
+    const closure = this.sceneClosure(mission)
+    this.setState({
+      ...state,
+      missions: [...state.missions, mission],
+      newMissions: [...state.newMissions, mission],
+      unreadMissionCount: state.unreadMissionCount + 1,
+      roadClosures: closure ? [...state.roadClosures, closure] : state.roadClosures,
+    })
+    return mission
+  }
+
+  // The road closed at the scene of `mission`, if it is the kind of call that closes one
+  private sceneClosure(mission: Mission): RoadClosure | null {
+    if (!MISSION_CONFIGS[mission.type].closesRoad) return null
+    return {
+      id: this.genId("rc"),
+      position: mission.position,
+      radius: CLOSURE_RADIUS,
+      reason: mission.title,
+      missionId: mission.id,
+      disasterId: mission.disasterId,
+    }
+  }
+
+  // Lifts the closures of calls the road authority has finished (their road
+  // work phases only move with its crews on scene); a failed call leaves its
+  // road closed until contractors get to it
+  private updateSceneClosures(closures: RoadClosure[], missions: Mission[], now: number): RoadClosure[] {
+    if (!closures.some((c) => c.missionId && c.until === undefined)) return closures
+    const byId = new Map(missions.map((m) => [m.id, m]))
+    let changed = false
+    const next = closures.flatMap((c) => {
+      if (!c.missionId || c.until !== undefined) return [c]
+      const mission = byId.get(c.missionId)
+      if (mission?.status === "completed" || !mission) {
+        changed = true
+        return []
+      }
+      if (mission.status === "failed") {
+        changed = true
+        return [{ ...c, until: now + UNREPAIRED_CLOSURE_HOURS * 3600000 }]
+      }
+      return [c]
+    })
+    return changed ? next : closures
+  }
+
+  // A new call of `type` at `position`, with its patients, severity and
+  // phases rolled; the caller names it
+  private buildMission(type: MissionType, position: LatLng, now: number): Mission {
+    const config = MISSION_CONFIGS[type]
+    const patients: Patient[] = []
+    if (config.patients) {
+      const count = config.patients.min + this.missionRng.int(config.patients.max - config.patients.min + 1)
+      for (let i = 0; i < count; i++) {
+        patients.push({ id: this.genId("pat"), severity: this.missionRng.weighted(config.patients.severities) })
+      }
+    }
+    const severity = this.missionRng.pickWeighted(SEVERITY_LEVELS, (level) => MISSION_SEVERITY[level].weight)
+    const level = MISSION_SEVERITY[severity]
+    const phases = config.phases.map((p) => ({ ...p, requiredBuildings: [...p.requiredBuildings] }))
+    // Bigger incidents need more of the main unit type for the longest phase
+    const longest = phases.reduce((a, b) => (b.duration > a.duration ? b : a))
+    for (let i = 0; i < level.extraUnits; i++) longest.requiredBuildings.push(longest.requiredBuildings[0])
+    // Every patient leaves in a unit of their own, and all units stay on scene
+    // until the end: the last phase sends for any carriers still missing
+    const carriers = transportUnits(phaseRequirements(phases)).length
+    const last = phases[phases.length - 1]
+    for (let i = carriers; i < patients.length; i++) last.requiredBuildings.push("ambulance-station")
+    const timeLimit = Math.round(config.baseTimeLimit * level.timeLimitMultiplier)
+
+    return {
+      id: this.genId("msn"),
+      type,
+      title: config.titles[0],
+      description: config.descriptions[0],
+      position,
+      status: "pending",
+      reward: Math.round((config.baseReward + this.missionRng.int(500)) * level.rewardMultiplier),
+      penalty: Math.round((config.basePenalty + this.missionRng.int(200)) * level.penaltyMultiplier),
+      timeLimit,
+      timeRemaining: timeLimit,
+      requiredBuildings: phaseRequirements(phases),
+      dispatchedVehicles: [],
+      workDuration: phases.reduce((sum, p) => sum + p.duration, 0),
+      phases,
+      phaseIndex: 0,
+      phaseProgress: 0,
+      pressure: 0,
+      escalated: false,
+      patients: patients.length > 0 ? patients : undefined,
+      severity,
+      targetResponse: level.targetResponse,
+      createdAt: now,
+    }
+  }
+
+  // --- Player commands ---
+
+  /** Apply a player command and record it for replays */
+  execute(command: GameCommand): boolean {
+    // Which units go can depend on cached routes, so the log names them explicitly
+    if (command.type === "dispatchVehicle" && !command.vehicleIds) {
+      const { missionId } = command
+      const mission = this.state.missions.find((m) => m.id === missionId)
+      const units = mission?.status === "pending" ? this.selectDispatchUnits(mission) : []
+      command = { type: "dispatchVehicle", missionId, vehicleIds: units.map((v) => v.id) }
+    }
+
+    this.record({ kind: "command", command })
+    switch (command.type) {
+      case "placeBuilding":
+        return this.placeBuilding(command.buildingType, command.position, command.size)
+      case "upgradeBuilding":
+        return this.upgradeBuilding(command.buildingId)
+      case "buyUpgrade":
+        return this.buyUpgrade(command.buildingId, command.upgrade)
+      case "hireStaff":
+        return this.hireStaff(command.buildingId)
+      case "purchaseVehicle":
+        return this.purchaseVehicle(command.buildingId)
+      case "sellBuilding":
+        return this.sellBuilding(command.buildingId)
+      case "dispatchVehicle":
+        return this.dispatchVehicle(command.missionId, command.vehicleIds, command.auto)
+      case "recallVehicle":
+        return this.recallVehicle(command.vehicleId)
+      case "reassignVehicle":
+        return this.reassignVehicle(command.vehicleId, command.missionId)
+      case "setDispatchPolicy":
+        this.setDispatchPolicy(command.missionType, command.policy)
+        return true
+      case "setPaused":
+        this.setPaused(command.paused)
+        return true
+      case "setGameSpeed":
+        this.setGameSpeed(command.speed)
+        return true
+    }
+  }
+
+  placeBuilding(type: BuildingType, position: LatLng, size: BuildingSize = "small"): boolean {
+    const state = this.state
+    const config = BUILDING_CONFIGS[type]
+    const cost = size === "small" ? config.smallCost : config.largeCost
+    if (state.money < cost) return false
+
+    const buildingId = this.genId("bldg")
+
+    const vehicles: Vehicle[] = config.vehicles.flatMap((v) => {
+      const count = size === "small" ? Math.ceil(v.count / 2) : v.count
+      return Array.from({ length: count }, () => ({
+        id: this.genId("veh"),
+        type: v.type,
+        buildingId,
+        status: "idle" as VehicleStatus,
+        position: { ...position },
+        routeCoords: [],
+        routeIndex: 0,
+        workTimeRemaining: 0,
+      }))
+    })
+
+    const building: Building = {
+      id: buildingId,
+      type,
+      size,
+      level: 1,
+      name: `${config.name} ${state.buildings.filter((b) => b.type === type).length + 1}`,
+      position,
+      vehicles,
+      staff: size === "small" ? 5 : 12,
+      maxStaff: size === "small" ? 8 : 20,
+      upgrades: [],
+      cost,
+      efficiency: size === "small" ? 0.7 : 1,
+    }
+
+    this.setState({
+      ...state,
+      money: state.money - cost,
+      buildings: [...state.buildings, building],
+      vehicles: [...state.vehicles, ...vehicles],
+      placingBuilding: null,
+    })
+    return true
+  }
+
+  upgradeBuilding(buildingId: string): boolean {
+    const state = this.state
+    const building = state.buildings.find((b) => b.id === buildingId)
+    if (!building) return false
+
+    const config = BUILDING_CONFIGS[building.type]
+    if (building.level >= config.maxLevel) return false
+    if (state.money < config.upgradeCost * building.level) return false
+
+    const upgradeCost = config.upgradeCost * building.level
+    const newSize = building.level >= 2 ? "large" : building.size === "small" ? "large" : building.size
+
+    const newVehicles: Vehicle[] = config.vehicles.flatMap((v) =>
+      Array.from({ length: 1 }, () => ({
+        id: this.genId("veh"),
+        type: v.type,
+        buildingId,
+        status: "idle" as VehicleStatus,
+        position: { ...building.position },
+        routeCoords: [],
+        routeIndex: 0,
+        workTimeRemaining: 0,
+      })),
+    )
+
+    this.setState({
+      ...state,
+      money: state.money - upgradeCost,
+      buildings: state.buildings.map((b) =>
+        b.id === buildingId
+          ? {
+              ...b,
+              level: b.level + 1,
+              size: newSize as BuildingSize,
+              maxStaff: b.maxStaff + 5,
+              staff: Math.min(b.staff + 2, b.maxStaff + 5),
+              vehicles: [...b.vehicles, ...newVehicles],
+              efficiency: Math.min(1, b.efficiency + 0.15),
+            }
+          : b,
+      ),
+      vehicles: [...state.vehicles, ...newVehicles],
+    })
+    return true
+  }
+
+  buyUpgrade(buildingId: string, upgrade: BuildingUpgradeId): boolean {
+    const state = this.state
+    const building = state.buildings.find((b) => b.id === buildingId)
+    if (!building) return false
+
+    const config = BUILDING_UPGRADES[upgrade]
+    if (building.type !== config.buildingType || building.upgrades.includes(upgrade)) return false
+    if (state.money < config.cost) return false
+
+    this.setState({
+      ...state,
+      money: state.money - config.cost,
+      buildings: state.buildings.map((b) => (b.id === buildingId ? { ...b, upgrades: [...b.upgrades, upgrade] } : b)),
+    })
+    return true
+  }
+
+  hireStaff(buildingId: string): boolean {
+    const state = this.state
+    const building = state.buildings.find((b) => b.id === buildingId)
+    if (!building) return false
+
+    const config = BUILDING_CONFIGS[building.type]
+    if (building.staff >= building.maxStaff) return false
+    if (state.money < config.staffCost) return false
+
+    this.setState({
+      ...state,
+      money: state.money - config.staffCost,
+      buildings: state.buildings.map((b) =>
+        b.id === buildingId
+          ? { ...b, staff: b.staff + 1, efficiency: Math.min(1, b.efficiency + 0.05) }
+          : b,
+      ),
+    })
+    return true
+  }
+
+  purchaseVehicle(buildingId: string): boolean {
+    const state = this.state
+    const building = state.buildings.find((b) => b.id === buildingId)
+    if (!building) return false
+
+    const config = BUILDING_CONFIGS[building.type]
+    if (state.money < config.vehicleCost) return false
+
+    const vehicleType = config.vehicles[0]?.type || "Vehicle"
+    const newVehicle: Vehicle = {
+      id: this.genId("veh"),
+      type: vehicleType,
+      buildingId,
+      status: "idle",
+      position: { ...building.position },
+      routeCoords: [],
+      routeIndex: 0,
+      workTimeRemaining: 0,
+    }
+
+    this.setState({
+      ...state,
+      money: state.money - config.vehicleCost,
+      buildings: state.buildings.map((b) =>
+        b.id === buildingId ? { ...b, vehicles: [...b.vehicles, newVehicle] } : b,
+      ),
+      vehicles: [...state.vehicles, newVehicle],
+    })
+    return true
+  }
+
+  sellBuilding(buildingId: string): boolean {
+    const state = this.state
+    const building = state.buildings.find((b) => b.id === buildingId)
+    if (!building) return false
+
+    const refund = Math.floor(building.cost * 0.5)
+    const vehicleIds = new Set(building.vehicles.map((v) => v.id))
+
+    this.setState({
+      ...state,
+      money: state.money + refund,
+      buildings: state.buildings.filter((b) => b.id !== buildingId),
+      vehicles: state.vehicles.filter((v) => !vehicleIds.has(v.id)),
+      selectedBuildingId: state.selectedBuildingId === buildingId ? null : state.selectedBuildingId,
+      managingBuildingId: state.managingBuildingId === buildingId ? null : state.managingBuildingId,
+    })
+    return true
+  }
+
+  // Travel time in seconds: the known road route if we have it, else the estimate
+  private travelSeconds(from: LatLng, to: LatLng): number {
+    return (this.peekRoute(from, to)?.duration ?? estimateTravelSeconds(from, to)) / this.weatherSpeedFactor()
+  }
+
+  /** Every unit of a required building type for `missionId`, busy or not, fastest first */
+  rankDispatchCandidates(missionId: string): DispatchCandidate[] {
+    const state = this.state
+    const mission = state.missions.find((m) => m.id === missionId)
+    if (!mission) return []
+
+    const buildings = new Map(
+      state.buildings
+        .filter((b) => mission.requiredBuildings.includes(b.type))
+        .map((b) => [b.id, b]),
+    )
+    const candidates: DispatchCandidate[] = []
+    for (const v of state.vehicles) {
+      const building = buildings.get(v.buildingId)
+      if (!building) continue
+      // A knocked-out station cannot turn out; its units already out still count
+      if (v.status === "idle" && (building.outOfServiceUntil ?? 0) > state.gameTime) continue
+      candidates.push({
+        vehicleId: v.id,
+        vehicleType: v.type,
+        status: v.status,
+        missionId: v.missionId,
+        buildingId: building.id,
+        buildingName: building.name,
+        buildingType: building.type,
+        distance: distanceMeters(v.position, mission.position),
+        etaSeconds: this.travelSeconds(v.position, mission.position),
+      })
+    }
+    // Stable sort: equal estimates keep vehicle order, so headless runs stay reproducible
+    return candidates.sort((a, b) => a.etaSeconds - b.etaSeconds)
+  }
+
+  // The units a dispatch to `mission` sends: the fastest idle vehicle per
+  // required unit (a type listed twice gets two), among the candidates
+  // `allowed` lets through
+  private selectDispatchUnits(mission: Mission, allowed: (c: DispatchCandidate) => boolean = () => true): Vehicle[] {
+    const ranked = this.rankDispatchCandidates(mission.id)
+    const chosen: Vehicle[] = []
+    for (const bType of mission.requiredBuildings) {
+      const best = ranked.find(
+        (c) =>
+          c.buildingType === bType &&
+          c.status === "idle" &&
+          allowed(c) &&
+          !chosen.some((v) => v.id === c.vehicleId),
+      )
+      const vehicle = best && this.state.vehicles.find((v) => v.id === best.vehicleId)
+      if (vehicle) chosen.push(vehicle)
+    }
+    return chosen
+  }
+
+  /** Units dispatchVehicle() would send right now, with where they come from and their ETA */
+  previewDispatch(missionId: string): DispatchCandidate[] {
+    const mission = this.state.missions.find((m) => m.id === missionId)
+    if (!mission || mission.status !== "pending") return []
+    const ranked = this.rankDispatchCandidates(missionId)
+    return this.selectDispatchUnits(mission).map((v) => ranked.find((c) => c.vehicleId === v.id)!)
+  }
+
+  /**
+   * Send units to a pending mission: the fastest idle unit per required
+   * building type, or the player's own pick `vehicleIds` (any number per
+   * type; units that are busy or of a type the mission does not need are
+   * skipped). `auto` marks a decision of the auto-dispatcher, for its log.
+   */
+  dispatchVehicle(missionId: string, vehicleIds?: string[], auto = false): boolean {
+    const state = this.state
+    const mission = state.missions.find((m) => m.id === missionId)
+    if (!mission || mission.status !== "pending") return false
+
+    const ranked = this.rankDispatchCandidates(missionId)
+    const eligible = new Set(ranked.filter((c) => c.status === "idle").map((c) => c.vehicleId))
+    const availableVehicles = vehicleIds
+      ? state.vehicles.filter((v) => vehicleIds.includes(v.id) && eligible.has(v.id))
+      : this.selectDispatchUnits(mission)
+    if (availableVehicles.length === 0) return false
+
+    const dispatchedIds = availableVehicles.map((v) => v.id)
+
+    // Immediately give dispatched vehicles a "preparing" status so they wait
+    // for the road route to load before starting to move
+    const immediateVehicles = availableVehicles.map((veh) => ({
+      ...veh,
+      status: "preparing" as VehicleStatus,
+      missionId: mission.id,
+      preparationTimeRemaining: PREPARATION_TIME,
+      routeCoords: [], // Empty route initially
+      routeSpeeds: undefined,
+      routeIndex: 0,
+      // Estimate until the real route arrives
+      eta: state.gameTime + this.travelSeconds(veh.position, mission.position) * 1000,
+    }))
+
+    const nextVehicles = state.vehicles.map((v) => {
+      const updated = immediateVehicles.find((iv) => iv.id === v.id)
+      return updated || v
+    })
+
+    const units = ranked.filter((c) => dispatchedIds.includes(c.vehicleId))
+    const dispatchLog = auto
+      ? this.appendDispatchLog(state.dispatchLog, mission, "dispatched", `Sent ${units
+          .map((c) => `${c.vehicleType} from ${c.buildingName} (~${Math.max(1, Math.ceil(c.etaSeconds / 60))} min)`)
+          .join(", ")}`)
+      : state.dispatchLog
+
+    this.setState({
+      ...state,
+      missions: state.missions.map((m) =>
+        m.id === missionId
+          ? { ...m, status: "dispatched" as const, dispatchedVehicles: dispatchedIds }
+          : m,
+      ),
+      vehicles: nextVehicles,
+      dispatchLog,
+    })
+
+    // Resolve real road routes; each vehicle starts moving only once its route is ready
+    for (const veh of availableVehicles) {
+      this.requestDispatchRoute(veh.id, mission.id, veh.position, mission.position)
+    }
+    return true
+  }
+
+  // --- Auto-dispatch ---
+
+  setDispatchPolicy(missionType: MissionType, policy: DispatchPolicy) {
+    this.setState({
+      ...this.state,
+      dispatchPolicies: { ...this.state.dispatchPolicies, [missionType]: policy },
+    })
+  }
+
+  private appendDispatchLog(
+    log: DispatchLogEntry[],
+    mission: Mission,
+    outcome: DispatchLogEntry["outcome"],
+    message: string,
+  ): DispatchLogEntry[] {
+    const entry = { gameTime: this.state.gameTime, missionId: mission.id, missionTitle: mission.title, outcome, message }
+    return [...log, entry].slice(-DISPATCH_LOG_LIMIT)
+  }
+
+  // Log a decision that leaves the mission pending, once per mission and outcome
+  private noteDispatchDecision(mission: Mission, outcome: "held" | "waiting", message: string) {
+    const last = this.state.dispatchLog.findLast((e) => e.missionId === mission.id)
+    if (last?.outcome === outcome) return
+    this.setState({
+      ...this.state,
+      dispatchLog: this.appendDispatchLog(this.state.dispatchLog, mission, outcome, message),
+    })
+  }
+
+  // Pending missions whose type has an enabled policy go out with the same
+  // pick a manual dispatch makes, narrowed by the policy. Held and waiting
+  // calls are looked at again every step until they go out or the player acts.
+  private runAutoDispatch() {
+    for (const mission of this.state.missions) {
+      if (mission.status !== "pending") continue
+      const policy = this.state.dispatchPolicies[mission.type]
+      if (!policy?.enabled) continue
+      // Sent once already and then recalled: the player has taken it over
+      const last = this.state.dispatchLog.findLast((e) => e.missionId === mission.id)
+      if (last?.outcome === "dispatched") continue
+
+      if (
+        policy.maxSeverity !== null &&
+        SEVERITY_LEVELS.indexOf(mission.severity) > SEVERITY_LEVELS.indexOf(policy.maxSeverity)
+      ) {
+        this.noteDispatchDecision(mission, "held", `Held for you: ${mission.severity} is above the ${policy.maxSeverity} limit`)
+        continue
+      }
+
+      const stations = policy.stationIds && new Set(policy.stationIds)
+      const units = this.selectDispatchUnits(mission, (c) => !stations || stations.has(c.buildingId))
+        .slice(0, policy.maxUnits)
+      if (units.length === 0) {
+        this.noteDispatchDecision(mission, "waiting", stations ? "No idle units at the allowed stations" : "No idle units")
+        continue
+      }
+
+      // During playback the recorded command below arrives from the log instead
+      if (!this.replayMode) {
+        this.execute({ type: "dispatchVehicle", missionId: mission.id, vehicleIds: units.map((v) => v.id), auto: true })
+      }
+    }
+  }
+
+  // Take `v` off its current mission. Phase progress stays with the mission,
+  // and a mission left without units goes back to pending.
+  private detachFromMission(missions: Mission[], v: Vehicle): Mission[] {
+    return missions.map((m) => {
+      if (m.id !== v.missionId || (m.status !== "pending" && m.status !== "dispatched")) return m
+      const dispatchedVehicles = m.dispatchedVehicles.filter((id) => id !== v.id)
+      return {
+        ...m,
+        dispatchedVehicles,
+        status: dispatchedVehicles.length > 0 ? m.status : ("pending" as const),
+      }
+    })
+  }
+
+  // An incident left under-resourced too long turns into a bigger one:
+  // worse stakes, and more units needed from the current phase on
+  private escalate(m: Mission): Mission {
+    const escalation = MISSION_CONFIGS[m.type].escalation
+    const phases = m.phases.map((p, i) =>
+      i >= m.phaseIndex ? { ...p, requiredBuildings: [...p.requiredBuildings, ...escalation.extraUnits] } : p,
+    )
+    return {
+      ...m,
+      title: escalation.title,
+      description: escalation.description,
+      reward: Math.round(m.reward * escalation.rewardMultiplier),
+      penalty: Math.round(m.penalty * escalation.penaltyMultiplier),
+      severity: SEVERITY_LEVELS[Math.min(SEVERITY_LEVELS.length - 1, SEVERITY_LEVELS.indexOf(m.severity) + 1)],
+      phases,
+      requiredBuildings: phaseRequirements(phases),
+      pressure: 1,
+      escalated: true,
+    }
+  }
+
+  /** Send a unit on its way to (or busy at) a mission back to its station */
+  recallVehicle(vehicleId: string): boolean {
+    const state = this.state
+    const veh = state.vehicles.find((v) => v.id === vehicleId)
+    if (!veh || !["preparing", "dispatched", "working"].includes(veh.status)) return false
+    const building = state.buildings.find((b) => b.id === veh.buildingId)
+    if (!building) return false
+
+    let recalled: Vehicle
+    if (veh.status === "preparing") {
+      // Still at the station: just stand down; a route in flight is dropped
+      this.pendingRoutes.delete(veh.id)
+      recalled = {
+        ...veh,
+        status: "idle",
+        missionId: undefined,
+        preparationTimeRemaining: undefined,
+        routeCoords: [],
+        routeSpeeds: undefined,
+        routeIndex: 0,
+        eta: undefined,
+      }
+    } else {
+      // Head home from wherever it is now, like a unit finishing a job
+      const route = this.fallbackRoute(veh.position, building.position, this.drivingRng.next)
+      recalled = {
+        ...veh,
+        status: "returning",
+        missionId: undefined,
+        workTimeRemaining: 0,
+        routeCoords: route.coords,
+        routeSpeeds: route.speeds,
+        routeIndex: 0,
+        eta: state.gameTime + route.duration * 1000,
+      }
+    }
+
+    const nextVehicles = state.vehicles.map((v) => (v.id === vehicleId ? recalled : v))
+    this.setState({
+      ...state,
+      missions: this.detachFromMission(state.missions, veh),
+      vehicles: nextVehicles,
+      buildings: this.syncBuildingsWithVehicles(nextVehicles),
+    })
+    if (recalled.status === "returning") {
+      this.requestReturnRoute(veh.id, veh.position, building.position)
+    }
+    return true
+  }
+
+  /**
+   * Send a unit to `missionId` whatever it is doing: idle units prepare as for
+   * a dispatch, units on the road or on scene leave from where they are now.
+   * The mission it was on loses it (see detachFromMission).
+   */
+  reassignVehicle(vehicleId: string, missionId: string): boolean {
+    const state = this.state
+    const veh = state.vehicles.find((v) => v.id === vehicleId)
+    const mission = state.missions.find((m) => m.id === missionId)
+    if (!veh || !mission || veh.missionId === missionId) return false
+    if (mission.status !== "pending" && mission.status !== "dispatched") return false
+    // Same eligibility as a dispatch: the unit must be of a type the mission needs
+    if (!this.rankDispatchCandidates(missionId).some((c) => c.vehicleId === vehicleId)) return false
+
+    // A unit with a patient on board finishes that run first
+    if (veh.status === "transporting") return false
+
+    const atStation = veh.status === "idle" || veh.status === "preparing"
+    let assigned: Vehicle
+    if (atStation) {
+      assigned = {
+        ...veh,
+        status: "preparing",
+        missionId,
+        preparationTimeRemaining: veh.preparationTimeRemaining ?? PREPARATION_TIME,
+        routeCoords: [],
+        routeSpeeds: undefined,
+        routeIndex: 0,
+        eta: state.gameTime + this.travelSeconds(veh.position, mission.position) * 1000,
+      }
+    } else {
+      const route = this.fallbackRoute(veh.position, mission.position, this.drivingRng.next)
+      assigned = {
+        ...veh,
+        status: "dispatched",
+        missionId,
+        workTimeRemaining: 0,
+        routeCoords: route.coords,
+        routeSpeeds: route.speeds,
+        routeIndex: 0,
+        eta: state.gameTime + route.duration * 1000,
+      }
+    }
+
+    const nextVehicles = state.vehicles.map((v) => (v.id === vehicleId ? assigned : v))
+    this.setState({
+      ...state,
+      missions: this.detachFromMission(state.missions, veh).map((m) =>
+        m.id === missionId
+          ? { ...m, status: "dispatched" as const, dispatchedVehicles: [...m.dispatchedVehicles, vehicleId] }
+          : m,
+      ),
+      vehicles: nextVehicles,
+      buildings: this.syncBuildingsWithVehicles(nextVehicles),
+    })
+    this.requestDispatchRoute(vehicleId, missionId, veh.position, mission.position)
+    return true
+  }
+
+  // --- Patients and fatalities ---
+
+  // Nearest building of one of `types` with `places` free beds. Straight-line
+  // distance keeps this deterministic.
+  private nearestWithRoom(
+    from: LatLng,
+    types: BuildingType[],
+    places: number,
+    bedsInUse: Map<string, number>,
+  ): Building | null {
+    let best: Building | null = null
+    let bestDistance = Infinity
+    for (const b of this.state.buildings) {
+      if (!types.includes(b.type) || bedCapacity(b) - (bedsInUse.get(b.id) ?? 0) < places) continue
+      const d = distanceMeters(from, b.position)
+      if (d < bestDistance) {
+        best = b
+        bestDistance = d
+      }
+    }
+    return best
+  }
+
+  // Serious and critical patients only go to a clinic when no hospital has room
+  private chooseFacility(severity: PatientSeverity, from: LatLng, bedsInUse: Map<string, number>): Building | null {
+    const hospital = PATIENT_CARE[severity].hospitalOnly ? this.nearestWithRoom(from, ["hospital"], 1, bedsInUse) : null
+    return hospital ?? this.nearestWithRoom(from, CARE_FACILITIES, 1, bedsInUse)
+  }
+
+  // --- Disasters ---
+
+  // Keeps the disaster under way going: tallies its incidents resolved since
+  // `prev`, brings in the scheduled ones and settles it once all are resolved.
+  // Road closures reopen on time, and a new disaster may strike on the hour.
+  private updateDisasters(prev: GameState, now: number) {
+    const state = this.state
+    const underWay = state.disasters.some((d) => !d.outcome)
+    if (underWay || state.roadClosures.some((c) => c.until !== undefined && c.until <= now)) {
+      this.advanceDisasters(prev, now)
+    }
+
+    const turnOfHour = Math.floor(now / 3600000) !== Math.floor(prev.gameTime / 3600000)
+    if (
+      turnOfHour &&
+      !this.state.disasters.some((d) => !d.outcome) &&
+      this.state.missionsCompleted >= DISASTER_MIN_COMPLETED &&
+      this.missionRng.next() < DISASTER_CHANCE_PER_HOUR
+    ) {
+      this.startDisaster(now)
+    }
+  }
+
+  private advanceDisasters(prev: GameState, now: number) {
+    const state = this.state
+    const wasOpen = new Set(
+      prev.missions.filter((m) => m.status !== "completed" && m.status !== "failed").map((m) => m.id),
+    )
+    const resolved = state.missions.filter(
+      (m) => m.disasterId && wasOpen.has(m.id) && (m.status === "completed" || m.status === "failed"),
+    )
+
+    let money = state.money
+    const incoming: Mission[] = []
+    const disasters = state.disasters.map((d) => {
+      if (d.outcome) return d
+      const completed = d.completed + resolved.filter((m) => m.disasterId === d.id && m.status === "completed").length
+      const failed = d.failed + resolved.filter((m) => m.disasterId === d.id && m.status === "failed").length
+      const due = d.upcoming.filter((at) => at <= now)
+      for (let i = 0; i < due.length; i++) incoming.push(this.disasterIncident(d, now))
+      const next = {
+        ...d,
+        completed,
+        failed,
+        upcoming: d.upcoming.filter((at) => at > now),
+        missionIds: [...d.missionIds, ...incoming.filter((m) => m.disasterId === d.id).map((m) => m.id)],
+      }
+      if (now < d.endsAt || next.upcoming.length > 0 || completed + failed < next.missionIds.length) return next
+
+      const config = DISASTER_CONFIGS[d.kind]
+      const won = completed >= Math.ceil(next.missionIds.length * config.winShare)
+      const settlement = won ? config.bonus : -config.penalty
+      money += settlement
+      return { ...next, outcome: { won, settlement, endedAt: now } }
+    })
+
+    const opened = state.roadClosures.filter((c) => c.until === undefined || c.until > now)
+    const added = incoming.flatMap((m) => this.sceneClosure(m) ?? [])
+    const finished = disasters.filter((d) => d.outcome)
+    this.setState({
+      ...state,
+      money,
+      disasters: [...finished.slice(-DISASTER_HISTORY), ...disasters.filter((d) => !d.outcome)],
+      roadClosures:
+        opened.length === state.roadClosures.length && added.length === 0 ? state.roadClosures : [...opened, ...added],
+      missions: incoming.length > 0 ? [...state.missions, ...incoming] : state.missions,
+      newMissions: incoming.length > 0 ? [...state.newMissions, ...incoming] : state.newMissions,
+      unreadMissionCount: state.unreadMissionCount + incoming.length,
+    })
+  }
+
+  private startDisaster(now: number) {
+    const state = this.state
+    const city = state.city
+    if (!city) return
+
+    const zones = CITY_ZONES[city.id] ?? []
+    const weather = this.currentWeather()
+    const kinds = Object.keys(DISASTER_CONFIGS) as DisasterKind[]
+    const kind = this.missionRng.pickWeighted(kinds, (k) => DISASTER_CONFIGS[k].weather[weather] ?? 1)
+    const config = DISASTER_CONFIGS[kind]
+    const candidates = zones.filter((z) => config.zones.includes(z.kind))
+    const zone = candidates.length > 0 ? this.missionRng.pick(candidates) : null
+    const position = this.zonePosition(city, zone)
+    const endsAt = now + config.hours * 3600000
+
+    // A third of the calls come in at once, the rest over the first 60% of it
+    const firstWave = Math.ceil(config.incidents / 3)
+    const later = config.incidents - firstWave
+    const upcoming = Array.from({ length: later }, (_, i) => now + ((i + 1) / later) * 0.6 * (endsAt - now))
+
+    // The nearest station of a type it can hit, if one is close enough
+    const station = state.buildings
+      .filter((b) => config.knockout.includes(b.type) && distanceMeters(b.position, position) < config.radius * 1.5)
+      .reduce<Building | null>(
+        (best, b) =>
+          !best || distanceMeters(b.position, position) < distanceMeters(best.position, position) ? b : best,
+        null,
+      )
+
+    const disaster: Disaster = {
+      id: this.genId("dis"),
+      kind,
+      name: zone ? `${config.label} in ${zone.name}` : config.label,
+      position,
+      radius: config.radius,
+      startedAt: now,
+      endsAt,
+      missionIds: [],
+      upcoming: [...Array.from({ length: firstWave }, () => now), ...upcoming],
+      completed: 0,
+      failed: 0,
+      knockedOutBuildingId: station?.id,
+    }
+    const closures: RoadClosure[] = Array.from({ length: config.closures }, () => ({
+      id: this.genId("rc"),
+      position: this.pointNear(position, config.radius),
+      radius: CLOSURE_RADIUS,
+      reason: config.closureReason,
+      disasterId: disaster.id,
+      until: endsAt,
+    }))
+
+    this.setState({
+      ...state,
+      disasters: [...state.disasters, disaster],
+      roadClosures: [...state.roadClosures, ...closures],
+      buildings: station
+        ? state.buildings.map((b) => (b.id === station.id ? { ...b, outOfServiceUntil: endsAt } : b))
+        : state.buildings,
+      // A major storm brings the weather with it
+      weather:
+        kind === "major-storm" ? this.forecastWeather([{ kind: "storm", from: now, until: endsAt }], now) : state.weather,
+    })
+  }
+
+  // One of a disaster's linked calls, somewhere in its area
+  private disasterIncident(disaster: Disaster, now: number): Mission {
+    const call = this.missionRng.pick(DISASTER_CONFIGS[disaster.kind].calls)
+    return {
+      ...this.buildMission(call.type, this.pointNear(disaster.position, disaster.radius), now),
+      title: call.title,
+      description: call.description,
+      disasterId: disaster.id,
+    }
+  }
+
+  // A random spot within `radius` metres of `center`, kept inside the city
+  private pointNear(center: LatLng, radius: number): LatLng {
+    const angle = this.missionRng.next() * 2 * Math.PI
+    const meters = radius * Math.sqrt(this.missionRng.next())
+    const point = {
+      lat: center.lat + (meters * Math.cos(angle)) / 111320,
+      lng: center.lng + (meters * Math.sin(angle)) / (111320 * Math.cos((center.lat * Math.PI) / 180)),
+    }
+    const city = this.state.city
+    if (!city) return point
+    const latSpan = (city.bounds.north - city.bounds.south) / 2
+    const lngSpan = (city.bounds.east - city.bounds.west) / 2
+    return clampToCity(point, city.center, latSpan, lngSpan)
+  }
+
+  // Follow-up call to collect the dead from an incident's scene
+  private recoveryMission(source: Mission, fatalities: number, now: number): Mission {
+    const config = MISSION_CONFIGS["fatality-recovery"]
+    const phases = config.phases.map((p) => ({ ...p, requiredBuildings: [...p.requiredBuildings] }))
+    return {
+      id: this.genId("msn"),
+      type: "fatality-recovery",
+      title: config.titles[0],
+      description: `${fatalities} ${fatalities === 1 ? "fatality" : "fatalities"} at the ${source.title} scene.`,
+      position: { ...source.position },
+      status: "pending",
+      reward: config.baseReward * fatalities,
+      penalty: config.basePenalty * fatalities,
+      timeLimit: config.baseTimeLimit,
+      timeRemaining: config.baseTimeLimit,
+      requiredBuildings: phaseRequirements(phases),
+      dispatchedVehicles: [],
+      workDuration: phases.reduce((sum, p) => sum + p.duration, 0),
+      phases,
+      phaseIndex: 0,
+      phaseProgress: 0,
+      pressure: 0,
+      escalated: false,
+      fatalities,
+      severity: "moderate",
+      targetResponse: MISSION_SEVERITY.moderate.targetResponse,
+      createdAt: now,
+    }
+  }
+
+  // --- Simulation step ---
+
+  /** Run `count` fixed steps (see game-clock.ts), announcing the result once */
+  runSteps(count: number) {
+    this.batch(() => {
+      for (let i = 0; i < count; i++) {
+        this.step(FIXED_STEP_MINUTES)
+      }
+    })
+  }
+
+  /** Run `fn` with change notifications collected into one at the end */
+  batch(fn: () => void) {
+    this.batchDepth++
+    try {
+      fn()
+    } finally {
+      this.batchDepth--
+    }
+    if (this.batchDepth === 0 && this.changedInBatch) {
+      this.changedInBatch = false
+      this.emit()
+    }
+  }
+
+  /** Advance the simulation by `dtGameMinutes` of game time */
+  step(dtGameMinutes: number) {
+    const state = this.state
+    if (state.isPaused || state.gameOver) return
+
+    const gameMinutesDelta = dtGameMinutes
+    const newGameTime = state.gameTime + gameMinutesDelta * 60000 // add as ms offset
+
+    let newMoney = state.money
+    let completed = state.missionsCompleted
+    let failed = state.missionsFailed
+
+    // Return routes are requested after the new state is committed, so a
+    // synchronous router cannot write into a state we are about to replace
+    const returnRequests: { vehicleId: string; from: LatLng; to: LatLng; status: VehicleStatus }[] = []
+
+    const startReturn = (v: Vehicle, building: Building): Vehicle => {
+      returnRequests.push({ vehicleId: v.id, from: v.position, to: building.position, status: "returning" })
+      // Give an immediate fallback route so vehicle starts returning instantly
+      const route = this.fallbackRoute(v.position, building.position, this.drivingRng.next)
+      return {
+        ...v,
+        status: "returning" as VehicleStatus,
+        workTimeRemaining: 0,
+        routeCoords: route.coords,
+        routeSpeeds: route.speeds,
+        routeIndex: 0,
+        eta: newGameTime + route.duration * 1000,
+        patient: undefined,
+        remains: undefined,
+      }
+    }
+
+    // `load` is the patient or the remains on board
+    const startTransport = (v: Vehicle, facility: Building, load: Pick<Vehicle, "patient" | "remains">): Vehicle => {
+      returnRequests.push({ vehicleId: v.id, from: v.position, to: facility.position, status: "transporting" })
+      const route = this.fallbackRoute(v.position, facility.position, this.drivingRng.next)
+      return {
+        ...v,
+        ...load,
+        status: "transporting" as VehicleStatus,
+        missionId: undefined,
+        routeCoords: route.coords,
+        routeSpeeds: route.speeds,
+        routeIndex: 0,
+        eta: newGameTime + route.duration * 1000,
+      }
+    }
+
+    const patientOutcomes = { ...state.patientOutcomes }
+    // Beds taken this step, by facility: game time each one frees up
+    const admissions = new Map<string, number[]>()
+
+    const admit = (v: Vehicle, patient: PatientTransport): Vehicle => {
+      const facility = state.buildings.find((b) => b.id === patient.facilityId)
+      const home = state.buildings.find((b) => b.id === v.buildingId)
+      // The facility was sold on the way: nowhere to hand the patient over
+      let outcome: PatientOutcome = "lost"
+      if (facility) {
+        const care = PATIENT_CARE[patient.severity]
+        const suitable = facility.type === "hospital" || !care.hospitalOnly
+        const inTime = newGameTime - patient.calledAt <= care.goldenMinutes * 60000
+        outcome = suitable && inTime ? "recovered" : "complications"
+        admissions.set(facility.id, [...(admissions.get(facility.id) ?? []), newGameTime + care.stayMinutes * 60000])
+      }
+      patientOutcomes[outcome]++
+      newMoney += Math.round(patient.reward * PATIENT_OUTCOME_PAY[outcome])
+      return home ? startReturn(v, home) : { ...v, patient: undefined }
+    }
+
+    const storeRemains = (v: Vehicle, remains: NonNullable<Vehicle["remains"]>): Vehicle => {
+      const morgue = state.buildings.find((b) => b.id === remains.facilityId)
+      const home = state.buildings.find((b) => b.id === v.buildingId)
+      if (morgue) {
+        const until = Array.from({ length: remains.count }, () => newGameTime + REMAINS_STAY_MINUTES * 60000)
+        admissions.set(morgue.id, [...(admissions.get(morgue.id) ?? []), ...until])
+      } else {
+        // The morgue was sold on the way
+        newMoney -= MORGUE_OVERFLOW_FEE * remains.count
+      }
+      return home ? startReturn(v, home) : { ...v, remains: undefined }
+    }
+
+    // --- Move vehicles ---
+    let updatedVehicles = state.vehicles.map((v) => {
+      if (v.status === "preparing") {
+        // Handle preparation countdown - do NOT move until the route is ready
+        const newPrepTime = (v.preparationTimeRemaining || 0) - gameMinutesDelta
+        if (newPrepTime <= 0) {
+          // Preparation time is up, but we wait for the route before dispatching
+          return { ...v, preparationTimeRemaining: 0 }
+        }
+        return { ...v, preparationTimeRemaining: newPrepTime }
+      }
+      if (v.status === "dispatched") {
+        // Only move if we have a valid route
+        if (v.routeCoords.length === 0) return v
+        const moved = this.moveVehicleAlongRoute(v, gameMinutesDelta, newGameTime)
+        if (moved.routeIndex >= moved.routeCoords.length - 1) {
+          // Park offset: fan out vehicles around mission site (~20m apart)
+          const dispatchedToSameMission = state.vehicles.filter(
+            (vv) => vv.missionId === v.missionId && vv.id !== v.id && vv.status === "working"
+          ).length
+          const angle = (dispatchedToSameMission * Math.PI * 0.6) + (Math.PI * 0.25)
+          const parkDist = 0.00025 // ~25m offset
+          const parkedPos = {
+            lat: moved.position.lat + Math.cos(angle) * parkDist,
+            lng: moved.position.lng + Math.sin(angle) * parkDist,
+          }
+          return {
+            ...moved,
+            position: parkedPos,
+            status: "working" as VehicleStatus,
+            eta: undefined,
+          }
+        }
+        return moved
+      }
+
+      // Working units stay put: they leave when their mission's last phase is done
+
+      if (v.status === "transporting") {
+        if (v.routeCoords.length === 0) return v
+        const moved = this.moveVehicleAlongRoute(v, gameMinutesDelta, newGameTime)
+        if (moved.routeIndex < moved.routeCoords.length - 1) return moved
+        if (v.patient) return admit(moved, v.patient)
+        if (v.remains) return storeRemains(moved, v.remains)
+        return moved
+      }
+
+      if (v.status === "returning") {
+        if (v.routeCoords.length === 0) return v
+        const moved = this.moveVehicleAlongRoute(v, gameMinutesDelta, newGameTime)
+        if (moved.routeIndex >= moved.routeCoords.length - 1) {
+          const building = state.buildings.find((b) => b.id === v.buildingId)
+          return {
+            ...moved,
+            status: "idle" as VehicleStatus,
+            position: building ? { ...building.position } : moved.position,
+            routeCoords: [],
+            routeSpeeds: undefined,
+            routeIndex: 0,
+            eta: undefined,
+            missionId: undefined,
+          }
+        }
+        return moved
+      }
+
+      return v
+    })
+
+    // Send every unit still on a finished mission home; ones that have not
+    // left the station yet just stand down
+    const releaseUnits = (missionId: string) => {
+      updatedVehicles = updatedVehicles.map((v) => {
+        if (v.missionId !== missionId) return v
+        if (v.status === "preparing") {
+          return { ...v, status: "idle" as VehicleStatus, missionId: undefined, preparationTimeRemaining: undefined, eta: undefined }
+        }
+        if (v.status === "dispatched" || v.status === "working") {
+          const building = state.buildings.find((b) => b.id === v.buildingId)
+          if (building) return startReturn(v, building)
+        }
+        return v
+      })
+    }
+
+    const buildingTypes = new Map(state.buildings.map((b) => [b.id, b.type]))
+
+    // Beds in use: admissions still running plus patients already on their way
+    const bedsInUse = new Map<string, number>()
+    const takeBed = (facilityId: string) => bedsInUse.set(facilityId, (bedsInUse.get(facilityId) ?? 0) + 1)
+    for (const b of state.buildings) {
+      for (const until of [...(b.admissions ?? []), ...(admissions.get(b.id) ?? [])]) {
+        if (until > newGameTime) takeBed(b.id)
+      }
+    }
+    for (const v of updatedVehicles) {
+      if (v.patient) takeBed(v.patient.facilityId)
+      if (v.remains) for (let i = 0; i < v.remains.count; i++) takeBed(v.remains.facilityId)
+    }
+
+    // Load each patient into an ambulance on scene and send it to a bed.
+    // Patients with no ambulance, or no bed anywhere, are lost.
+    const transportPatients = (m: Mission): Patient[] | undefined => {
+      if (!m.patients) return undefined
+      const carriers = updatedVehicles.filter(
+        (v) =>
+          v.missionId === m.id &&
+          v.status === "working" &&
+          TRANSPORT_BUILDINGS.some((type) => type === buildingTypes.get(v.buildingId)),
+      )
+      const share = (m.reward * PATIENT_REWARD_SHARE) / m.patients.length
+      const loaded = new Map<string, Vehicle>()
+      const patients = m.patients.map((p) => {
+        const carrier = carriers.shift()
+        const facility = carrier ? this.chooseFacility(p.severity, carrier.position, bedsInUse) : null
+        if (!carrier || !facility) {
+          patientOutcomes.lost++
+          return { ...p, outcome: "lost" as const }
+        }
+        takeBed(facility.id)
+        loaded.set(
+          carrier.id,
+          startTransport(carrier, facility, {
+            patient: {
+              missionId: m.id,
+              patientId: p.id,
+              severity: p.severity,
+              calledAt: m.createdAt,
+              facilityId: facility.id,
+              reward: share,
+            },
+          }),
+        )
+        return { ...p, facilityId: facility.id }
+      })
+      updatedVehicles = updatedVehicles.map((v) => loaded.get(v.id) ?? v)
+      return patients
+    }
+
+    // A morgue van on scene takes the remains to the nearest morgue with room
+    // for all of them; with none, they go out of town at a fee
+    const collectRemains = (m: Mission) => {
+      const count = m.fatalities ?? 0
+      const van = updatedVehicles.find(
+        (v) => v.missionId === m.id && v.status === "working" && buildingTypes.get(v.buildingId) === "morgue",
+      )
+      if (count === 0 || !van) return
+      const morgue = this.nearestWithRoom(van.position, ["morgue"], count, bedsInUse)
+      if (!morgue) {
+        newMoney -= MORGUE_OVERFLOW_FEE * count
+        return
+      }
+      for (let i = 0; i < count; i++) takeBed(morgue.id)
+      const loaded = startTransport(van, morgue, { remains: { missionId: m.id, count, facilityId: morgue.id } })
+      updatedVehicles = updatedVehicles.map((v) => (v.id === van.id ? loaded : v))
+    }
+
+    // Incidents that cost lives this step, and how many
+    const fatalities: { source: Mission; count: number }[] = []
+    // Finished this step, for the completion toast
+    const completedNow: Mission[] = []
+
+    // --- Update missions (delta-based) ---
+    const updatedMissions = state.missions
+      .map((m) => {
+        if (m.status === "completed" || m.status === "failed") return m
+
+        const newTime = Math.max(0, m.timeRemaining - gameMinutesDelta)
+
+        // Work the current phase at the rate the units on scene allow
+        const onScene = updatedVehicles
+          .filter((v) => v.missionId === m.id && v.status === "working")
+          .flatMap((v) => buildingTypes.get(v.buildingId) ?? [])
+        const coverage = phaseCoverage(m.phases[m.phaseIndex], onScene)
+        const respondedAt = m.respondedAt ?? (onScene.length > 0 ? newGameTime : undefined)
+        let phaseIndex = m.phaseIndex
+        let phaseProgress = m.phaseProgress
+        // Nobody else can stand in for the road authority: a phase that needs
+        // its crews stands still until one is on scene
+        const roadWorkStalled =
+          m.phases[m.phaseIndex]?.requiredBuildings.includes("road-authority") && !onScene.includes("road-authority")
+        if (onScene.length > 0 && !roadWorkStalled) {
+          phaseProgress += gameMinutesDelta * Math.max(MIN_PHASE_RATE, coverage)
+          while (phaseIndex < m.phases.length && phaseProgress >= m.phases[phaseIndex].duration) {
+            phaseProgress -= m.phases[phaseIndex].duration
+            phaseIndex++
+          }
+        }
+
+        if (phaseIndex >= m.phases.length) {
+          // Response time scales the reward; with patients, part of it waits on how they do in care
+          const score = responseScore(((respondedAt ?? newGameTime) - m.createdAt) / 60000, m.targetResponse)
+          const earned = Math.round(m.reward * score)
+          const payout = m.patients ? Math.round(earned * (1 - PATIENT_REWARD_SHARE)) : earned
+          newMoney += payout
+          completed++
+          const patients = transportPatients({ ...m, reward: earned })
+          collectRemains(m)
+          releaseUnits(m.id)
+          // Patients nobody could take in, and sometimes a victim of the escalation
+          let dead = patients?.filter((p) => p.outcome === "lost").length ?? 0
+          if (m.escalated && this.missionRng.next() < MISSION_CONFIGS[m.type].escalation.fatalityChance) dead++
+          if (dead > 0) fatalities.push({ source: m, count: dead })
+          const done = {
+            ...m,
+            status: "completed" as const,
+            timeRemaining: newTime,
+            phaseIndex,
+            phaseProgress: 0,
+            patients,
+            respondedAt,
+            responseScore: score,
+            payout,
+          }
+          completedNow.push(done)
+          return done
+        }
+
+        if (newTime <= 0) {
+          newMoney -= m.penalty
+          failed++
+          releaseUnits(m.id)
+          // Nobody got them to care in time
+          const patients = m.patients?.map((p) => ({ ...p, outcome: "lost" as const }))
+          patientOutcomes.lost += patients?.length ?? 0
+          // An escalated incident left to run out costs at least one life
+          const dead = Math.max(patients?.length ?? 0, m.escalated ? 1 : 0)
+          if (dead > 0 && m.type !== "fatality-recovery") fatalities.push({ source: m, count: dead })
+          return { ...m, status: "failed" as const, timeRemaining: 0, patients }
+        }
+
+        // Pressure builds at full rate with nobody on scene, slower when partly covered
+        const escalationWindow = MISSION_CONFIGS[m.type].escalation.window
+        const pressure = m.escalated ? m.pressure : m.pressure + (gameMinutesDelta * (1 - coverage)) / escalationWindow
+        const next = { ...m, timeRemaining: newTime, phaseIndex, phaseProgress, pressure: Math.min(1, pressure), respondedAt }
+        return !m.escalated && pressure >= 1 ? this.escalate(next) : next
+      })
+      .filter((m) => {
+        if (m.status === "completed" || m.status === "failed") {
+          const age = state.gameTime - m.createdAt
+          return age < (m.timeLimit + 20) * 60000
+        }
+        return true
+      })
+
+    // Fatalities call out a morgue van to the scene
+    const recoveries = fatalities.map((f) => this.recoveryMission(f.source, f.count, newGameTime))
+
+    // Escalations are announced like new calls, and completions get a toast too
+    const escalated = updatedMissions.filter(
+      (m) => m.escalated && !state.missions.find((old) => old.id === m.id)?.escalated,
+    )
+    const announced = [...escalated, ...completedNow]
+    const newMissions =
+      announced.length > 0 || recoveries.length > 0
+        ? [...state.newMissions.filter((n) => !announced.some((m) => m.id === n.id)), ...announced, ...recoveries]
+        : state.newMissions
+
+    const isGameOver = newMoney < 0
+
+    // Sync buildings only when vehicle status/assignment changed (not just position)
+    // Compare vehicle statuses to detect structural changes vs mere movement
+    const vehicleStatusChanged = updatedVehicles.some((v, i) => {
+      const old = state.vehicles[i]
+      if (!old) return true
+      return v.status !== old.status || v.missionId !== old.missionId || v.buildingId !== old.buildingId
+    }) || updatedVehicles.length !== state.vehicles.length
+    let nextBuildings = vehicleStatusChanged ? this.syncBuildingsWithVehicles(updatedVehicles) : state.buildings
+
+    // Fill beds with this step's admissions and free the ones whose stay is over
+    if (admissions.size > 0 || nextBuildings.some((b) => b.admissions?.some((until) => until <= newGameTime))) {
+      nextBuildings = nextBuildings.map((b) => {
+        if (!b.admissions && !admissions.has(b.id)) return b
+        return {
+          ...b,
+          admissions: [...(b.admissions ?? []), ...(admissions.get(b.id) ?? [])].filter((until) => until > newGameTime),
+        }
+      })
+    }
+
+    this.setState({
+      ...state,
+      money: newMoney,
+      missions: recoveries.length > 0 ? [...updatedMissions, ...recoveries] : updatedMissions,
+      newMissions,
+      unreadMissionCount: state.unreadMissionCount + recoveries.length,
+      vehicles: updatedVehicles,
+      buildings: nextBuildings,
+      missionsCompleted: completed,
+      missionsFailed: failed,
+      patientOutcomes,
+      roadClosures: this.updateSceneClosures(state.roadClosures, updatedMissions, newGameTime),
+      weather: (state.weather[0]?.until ?? 0) > newGameTime ? state.weather : this.forecastWeather(state.weather, newGameTime),
+      gameTime: newGameTime,
+      gameOver: isGameOver,
+    })
+    // Counted before the return routes below: a route that resolves right away
+    // belongs after this step, not before it, when the replay applies it
+    this.stepCount++
+
+    // Fetch real return routes in the background
+    for (const req of returnRequests) {
+      this.requestReturnRoute(req.vehicleId, req.from, req.to, req.status)
+    }
+
+    // Mission spawns are scheduled in game time, so they follow pause and speed exactly
+    if (!isGameOver && newGameTime >= this.state.nextMissionAt) {
+      this.generateMission()
+      this.setState({
+        ...this.state,
+        nextMissionAt: newGameTime + this.nextMissionDelay(newGameTime) * 60000,
+      })
+    }
+
+    if (!isGameOver) this.updateDisasters(state, newGameTime)
+    if (!isGameOver) this.runAutoDispatch()
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Simulation worker protocol
+ * The simulation (engine, NPC traffic, routing) runs in a Web Worker, see
+ * simulation-worker.ts; game-store.ts keeps a copy of the game state on the
+ * main thread for React. This module is the contract between the two.
+ *
+ * The UI calls the worker by method name and gets a result back for every
+ * call. The worker answers with one full state when the UI connects, and from
+ * then on only what changed: fields of the state that were replaced, and for
+ * the big entity lists just the entities that were (the engine replaces only
+ * what it changes, so unchanged entities keep their identity on both sides).
+ */
+
+import type { Building, CityConfig, GameState, Mission, Vehicle } from "./game-types"
+import type { GameCommand, ReplayLog } from "./replay"
+import type { GameSnapshot } from "./save-game"
+import type { DispatchCandidate } from "./simulation-engine"
+import type { RoutingConfig } from "./routing-config"
+
+export interface ViewBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+/**
+ * The fields only the UI changes. Anything the simulation also writes goes
+ * through a call of its own, so the UI's copy (which can be behind) never
+ * overwrites it.
+ */
+export type UiPatch = Partial<
+  Pick<GameState, "placingBuilding" | "selectedBuildingId" | "selectedMissionId" | "managingBuildingId">
+>
+
+/** Everything the UI can ask of the worker */
+export interface SimulationCalls {
+  execute: (command: GameCommand) => boolean
+  patch: (patch: UiPatch) => void
+  /** Close the notifications the UI has shown, and count `read` calls as read */
+  clearNewMissions: (missionIds: string[], read: number) => void
+  /** Count `read` calls as read */
+  markMissionsAsRead: (read: number) => void
+  dismissDisaster: (disasterId: string) => void
+  togglePause: () => void
+  setSeed: (seed: string) => void
+  setCity: (city: CityConfig) => void
+  startGame: () => void
+  loadSnapshot: (snapshot: GameSnapshot) => void
+  resetGame: () => void
+  generateMission: () => void
+  previewDispatch: (missionId: string) => DispatchCandidate[]
+  dispatchCandidates: (missionId: string) => DispatchCandidate[]
+  toSnapshot: () => GameSnapshot | null
+  getReplayLog: () => ReplayLog | null
+  setRoutingConfig: (config: RoutingConfig) => void
+  startTraffic: (seed: string) => void
+  stopTraffic: () => void
+  updateViewBounds: (bounds: ViewBounds) => void
+}
+
+export type SimulationMethod = keyof SimulationCalls
+
+export type SimulationRequest = {
+  [M in SimulationMethod]: { id: number; method: M; args: Parameters<SimulationCalls[M]> }
+}[SimulationMethod]
+
+type EntityKey = "vehicles" | "missions" | "buildings"
+type Entity = Vehicle | Mission | Building
+
+export interface EntityDiff<T> {
+  /** Entities that are new or were replaced */
+  changed: T[]
+  /** Every id in order; only sent when entities came, went or moved */
+  ids?: string[]
+}
+
+export interface StateDiff {
+  fields: Partial<Omit<GameState, EntityKey>>
+  vehicles?: EntityDiff<Vehicle>
+  missions?: EntityDiff<Mission>
+  buildings?: EntityDiff<Building>
+}
+
+export type SimulationMessage =
+  | { kind: "state"; state: GameState }
+  | { kind: "diff"; diff: StateDiff }
+  /** NPC cars, PACKED_CAR_FIELDS numbers per car (see traffic-manager.ts) */
+  | { kind: "traffic"; cars: Float64Array }
+  /** The answer to a call; `error` when it threw */
+  | { kind: "result"; id: number; value?: unknown; error?: string }
+
+const ENTITY_KEYS: EntityKey[] = ["vehicles", "missions", "buildings"]
+
+function diffEntities<T extends Entity>(prev: T[], next: T[]): EntityDiff<T> | undefined {
+  if (prev === next) return undefined
+  const prevById = new Map(prev.map((e) => [e.id, e]))
+  const changed = next.filter((e) => prevById.get(e.id) !== e)
+  const sameIds = prev.length === next.length && next.every((e, i) => prev[i].id === e.id)
+  if (sameIds && changed.length === 0) return undefined
+  return sameIds ? { changed } : { changed, ids: next.map((e) => e.id) }
+}
+
+function applyEntities<T extends Entity>(current: T[], diff: EntityDiff<T> | undefined): T[] {
+  if (!diff) return current
+  const changedById = new Map(diff.changed.map((e) => [e.id, e]))
+  if (diff.ids) {
+    const currentById = new Map(current.map((e) => [e.id, e]))
+    return diff.ids.map((id) => (changedById.get(id) ?? currentById.get(id)) as T)
+  }
+  return current.map((e) => changedById.get(e.id) ?? e)
+}
+
+/** What changed between two states, or null if nothing did */
+export function diffState(prev: GameState, next: GameState): StateDiff | null {
+  if (prev === next) return null
+  const diff: StateDiff = { fields: {} }
+  let empty = true
+  for (const key of Object.keys(next) as (keyof GameState)[]) {
+    if (ENTITY_KEYS.includes(key as EntityKey) || prev[key] === next[key]) continue
+    ;(diff.fields as Record<string, unknown>)[key] = next[key]
+    empty = false
+  }
+  diff.vehicles = diffEntities(prev.vehicles, next.vehicles)
+  diff.missions = diffEntities(prev.missions, next.missions)
+  diff.buildings = diffEntities(prev.buildings, next.buildings)
+  if (empty && !diff.vehicles && !diff.missions && !diff.buildings) return null
+  return diff
+}
+
+export function applyStateDiff(state: GameState, diff: StateDiff): GameState {
+  return {
+    ...state,
+    ...diff.fields,
+    vehicles: applyEntities(state.vehicles, diff.vehicles),
+    missions: applyEntities(state.missions, diff.missions),
+    buildings: applyEntities(state.buildings, diff.buildings),
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Simulation worker
+ * Runs the game off the main thread: the SimulationEngine, its wall-clock
+ * loop, NPC traffic and route fetching all live here, so stepping hundreds of
+ * units never competes with map rendering. game-store.ts talks to it through
+ * the protocol in simulation-protocol.ts and keeps a copy of the state for React.
+ */
+
+import type { GameState, RoadClosure } from "./game-types"
+import { WEATHER_CONFIGS, cityHasUpgrade } from "./game-types"
+import {
+  getTrafficDensity,
+  packCars,
+  rerouteTraffic,
+  startTraffic,
+  stopTraffic,
+  tickTraffic,
+  updateViewBounds,
+} from "./traffic-manager"
+import {
+  createRouteProvider,
+  getRoute,
+  peekRoute,
+  setRoadClosures,
+  setRouteProvider,
+  straightLineRoute,
+} from "./route-service"
+import { SimulationEngine, INITIAL_STATE } from "./simulation-engine"
+import { GameClock } from "./game-clock"
+import { hourOfDay } from "./time-utils"
+import type { SimulationCalls, SimulationMessage, SimulationRequest } from "./simulation-protocol"
+import { diffState } from "./simulation-protocol"
+
+// Real time between ticks; the game clock turns it into fixed simulation steps
+const TICK_MS = 100
+
+const scope = self as unknown as Worker
+
+function post(message: SimulationMessage, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer)
+}
+
+const engine = new SimulationEngine(INITIAL_STATE, {
+  getRoute,
+  fallbackRoute: straightLineRoute,
+  getTrafficDensity,
+  peekRoute,
+})
+
+// Dispatch candidates per mission start out ranked by a straight-line
+// estimate; fetching road routes for the nearest few lets later previews
+// (and the dispatch itself) rank them by real travel time
+const PREFETCH_PER_TYPE = 3
+const prefetchedMissions = new Set<string>()
+
+function prefetchDispatchRoutes(missionId: string) {
+  if (prefetchedMissions.has(missionId)) return
+  const state = engine.getState()
+  const mission = state.missions.find((m) => m.id === missionId)
+  if (!mission) return
+  prefetchedMissions.add(missionId)
+
+  const candidates = engine
+    .rankDispatchCandidates(missionId)
+    .filter((c) => c.status === "idle")
+    .sort((a, b) => a.distance - b.distance)
+  for (const type of new Set(mission.requiredBuildings)) {
+    for (const c of candidates.filter((c) => c.buildingType === type).slice(0, PREFETCH_PER_TYPE)) {
+      const vehicle = state.vehicles.find((v) => v.id === c.vehicleId)
+      // Cached by route-service; the next preview picks it up
+      if (vehicle) void getRoute(vehicle.position, mission.position)
+    }
+  }
+}
+
+// Prefetched calls are forgotten once they are over; the missions as last checked
+let checkedMissions = engine.getState().missions
+
+function prunePrefetched() {
+  const { missions } = engine.getState()
+  if (missions === checkedMissions || prefetchedMissions.size === 0) return
+  checkedMissions = missions
+  for (const missionId of prefetchedMissions) {
+    const status = missions.find((m) => m.id === missionId)?.status
+    if (status !== "pending" && status !== "dispatched") prefetchedMissions.delete(missionId)
+  }
+}
+engine.subscribe(prunePrefetched)
+
+// Converts elapsed real time into fixed simulation steps
+const clock = new GameClock(Date.now())
+
+// Road closures as last handed to the router; the engine only replaces the
+// array when a closure comes or goes
+let routedClosures: RoadClosure[] = []
+
+function syncRoadClosures() {
+  const closures = engine.getState().roadClosures
+  if (closures === routedClosures) return
+  routedClosures = closures
+  setRoadClosures(closures)
+  rerouteTraffic()
+}
+engine.subscribe(syncRoadClosures)
+
+// --- State to the UI ---
+
+// The state as the UI last saw it; every change since goes out as one diff,
+// at most once per task however many times the engine changed
+let sentState: GameState = engine.getState()
+let flushQueued = false
+
+function flush() {
+  flushQueued = false
+  const state = engine.getState()
+  const diff = diffState(sentState, state)
+  sentState = state
+  if (diff) post({ kind: "diff", diff })
+}
+
+engine.subscribe(() => {
+  if (flushQueued) return
+  flushQueued = true
+  queueMicrotask(flush)
+})
+
+let trafficRunning = false
+
+function tick() {
+  const state = engine.getState()
+  if (state.isPaused || state.gameOver) return
+
+  // Tick NPC traffic system, as busy as the hour in the city and as fast as
+  // the weather allows; cars (and with pre-emption, signals) make way for
+  // units on their way to a call
+  if (state.city && trafficRunning) {
+    tickTraffic(hourOfDay(state.gameTime, state.city.timeZone), {
+      speedFactor: WEATHER_CONFIGS[state.weather[0]?.kind ?? "clear"].speedFactor,
+      emergencyUnits: state.vehicles.filter((v) => v.status === "dispatched"),
+      signalPreemption: cityHasUpgrade(state.buildings, "signal-preemption"),
+      population: state.city.population,
+    })
+    const cars = packCars()
+    post({ kind: "traffic", cars }, [cars.buffer])
+  }
+
+  // The game clock decides how many fixed steps are due; game speed only
+  // changes how many steps accrue per tick
+  const steps = clock.consume(Date.now(), state.gameSpeed)
+  if (steps > 0) engine.runSteps(steps)
+}
+
+setInterval(tick, TICK_MS)
+
+// --- Calls from the UI ---
+
+const calls: SimulationCalls = {
+  execute: (command) => engine.execute(command),
+  patch: (patch) => {
+    engine.setState({ ...engine.getState(), ...patch })
+  },
+  clearNewMissions: (missionIds, read) => {
+    const state = engine.getState()
+    engine.setState({
+      ...state,
+      newMissions: state.newMissions.filter((m) => !missionIds.includes(m.id)),
+      unreadMissionCount: Math.max(0, state.unreadMissionCount - read),
+    })
+  },
+  markMissionsAsRead: (read) => {
+    const state = engine.getState()
+    engine.setState({ ...state, unreadMissionCount: Math.max(0, state.unreadMissionCount - read) })
+  },
+  dismissDisaster: (disasterId) => {
+    const state = engine.getState()
+    engine.setState({
+      ...state,
+      disasters: state.disasters.map((d) => (d.id === disasterId ? { ...d, dismissed: true } : d)),
+    })
+  },
+  togglePause: () => {
+    const willUnpause = engine.getState().isPaused
+    if (willUnpause) {
+      // Drop the paused duration so the first tick doesn't simulate it
+      clock.reset(Date.now())
+    }
+    engine.execute({ type: "setPaused", paused: !willUnpause })
+  },
+  setSeed: (seed) => engine.setSeed(seed),
+  setCity: (city) => engine.setCity(city),
+  startGame: () => {
+    clock.reset(Date.now())
+    prefetchedMissions.clear()
+    engine.start()
+  },
+  loadSnapshot: (snapshot) => {
+    clock.reset(Date.now())
+    prefetchedMissions.clear()
+    engine.loadSnapshot(snapshot)
+  },
+  resetGame: () => engine.reset(),
+  generateMission: () => {
+    engine.generateMission()
+  },
+  previewDispatch: (missionId) => {
+    prefetchDispatchRoutes(missionId)
+    return engine.previewDispatch(missionId)
+  },
+  dispatchCandidates: (missionId) => {
+    prefetchDispatchRoutes(missionId)
+    return engine.rankDispatchCandidates(missionId)
+  },
+  toSnapshot: () => engine.toSnapshot(),
+  getReplayLog: () => engine.getReplayLog(),
+  setRoutingConfig: (config) => setRouteProvider(createRouteProvider(config)),
+  startTraffic: (seed) => {
+    trafficRunning = true
+    startTraffic(seed)
+  },
+  stopTraffic: () => {
+    trafficRunning = false
+    stopTraffic()
+  },
+  updateViewBounds: (bounds) => updateViewBounds(bounds),
+}
+
+scope.addEventListener("message", (event: MessageEvent<SimulationRequest>) => {
+  const { id, method, args } = event.data
+  try {
+    const value = (calls[method] as (...a: typeof args) => unknown)(...args)
+    post({ kind: "result", id, value })
+  } catch (err) {
+    post({ kind: "result", id, error: err instanceof Error ? err.message : String(err) })
+  }
+})
+
+post({ kind: "state", state: sentState })
@@ -0,0 +1,62 @@
+/**
+ * Spatial Grid
+ * Uniform lat/lng grid for "what is near this point" queries over things that
+ * move every tick, such as the NPC traffic. Rebuilding it from scratch each
+ * tick is O(n), and a query only visits the cells its radius overlaps, so the
+ * cost of a lookup no longer grows with the number of items.
+ */
+
+export class SpatialGrid<T> {
+  private readonly cells = new Map<number, T[]>()
+
+  /** `cellDeg` should be about the radius of the typical query */
+  constructor(private readonly cellDeg: number) {}
+
+  // Rows and columns packed into one number: no string keys in the hot path
+  private key(row: number, col: number) {
+    return row * 1_000_000 + col
+  }
+
+  clear() {
+    this.cells.clear()
+  }
+
+  insert(item: T, lat: number, lng: number) {
+    const key = this.key(Math.floor(lat / this.cellDeg), Math.floor(lng / this.cellDeg))
+    const cell = this.cells.get(key)
+    if (cell) cell.push(item)
+    else this.cells.set(key, [item])
+  }
+
+  /** Take out `item`, inserted at this position */
+  remove(item: T, lat: number, lng: number) {
+    const key = this.key(Math.floor(lat / this.cellDeg), Math.floor(lng / this.cellDeg))
+    const cell = this.cells.get(key)
+    if (!cell) return
+    const i = cell.indexOf(item)
+    if (i < 0) return
+    cell.splice(i, 1)
+    if (cell.length === 0) this.cells.delete(key)
+  }
+
+  /**
+   * Call `visit` for every item in the cells within `radius` (degrees) of the
+   * point; items a bit further out are visited too, so callers still check
+   * the distance. Returning true from `visit` stops the search.
+   */
+  near(lat: number, lng: number, radius: number, visit: (item: T) => boolean | void) {
+    const rowFrom = Math.floor((lat - radius) / this.cellDeg)
+    const rowTo = Math.floor((lat + radius) / this.cellDeg)
+    const colFrom = Math.floor((lng - radius) / this.cellDeg)
+    const colTo = Math.floor((lng + radius) / this.cellDeg)
+    for (let row = rowFrom; row <= rowTo; row++) {
+      for (let col = colFrom; col <= colTo; col++) {
+        const cell = this.cells.get(this.key(row, col))
+        if (!cell) continue
+        for (const item of cell) {
+          if (visit(item) === true) return
+        }
+      }
+    }
+  }
+}
@@ -1,17 +1,20 @@
 // Time utilities for game time formatting
 
-export function formatGameTime(timestamp: number): string {
+// Pass the city's time zone to show the clock the city itself runs on
+export function formatGameTime(timestamp: number, timeZone?: string): string {
   const date = new Date(timestamp)
   return date.toLocaleTimeString('nb-NO', { 
+    timeZone,
     hour: '2-digit', 
     minute: '2-digit',
     hour12: false 
   })
 }
 
-export function formatGameDate(timestamp: number): string {
+export function formatGameDate(timestamp: number, timeZone?: string): string {
   const date = new Date(timestamp)
   return date.toLocaleDateString('nb-NO', { 
+    timeZone,
     day: '2-digit',
     month: '2-digit',
     year: 'numeric'
@@ -47,3 +50,24 @@ export function getSpeedMultiplier(speed: 1 | 2 | 3): string {
     default: return "1x"
   }
 }
+
+// Travel time in whole game minutes, never shown as 0 while still driving
+export function formatTravelTime(seconds: number): string {
+  return formatMissionTime(Math.max(1, Math.ceil(seconds / 60)))
+}
+
+const hourFormats = new Map<string, Intl.DateTimeFormat>()
+
+// Hour of day (0-24, fractional) in a city's time zone. Independent of the
+// player's own zone, so time-of-day effects replay the same everywhere.
+export function hourOfDay(timestamp: number, timeZone: string): number {
+  let format = hourFormats.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-GB', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' })
+    hourFormats.set(timeZone, format)
+  }
+  const parts = format.formatToParts(new Date(timestamp))
+  const hour = Number(parts.find((p) => p.type === 'hour')?.value ?? 0)
+  const minute = Number(parts.find((p) => p.type === 'minute')?.value ?? 0)
+  return hour + minute / 60
+}
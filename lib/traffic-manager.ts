@@ -7,13 +7,27 @@
  * Cars:
  *  - Are tiny round dots (2-3px radius)
  *  - Slow at corners/junctions, faster on straight roads
- *  - Keep safe following distance (no collisions)
- *  - Stop at intersections occasionally (simulated traffic lights)
+ *  - Keep safe following distance (no collisions), found through a spatial grid
+ *  - Stop on red at signalised crossroads and queue behind each other (traffic-signals.ts)
+ *  - Fill the view as densely as the city's population suggests, so a few
+ *    dozen close up and up to MAX_CARS zoomed out
+ *  - Thin out at night and pile up in the rush hours (TRAFFIC_BY_HOUR)
+ *  - Drive slower in bad weather
+ *  - Detour around closed roads
+ *  - Pull over for emergency units coming up behind them, but clear a
+ *    junction first rather than stop in it
  *
- * This module is standalone (not in React state) to avoid re-renders.
+ * This module is standalone (not in React state) to avoid re-renders, and runs
+ * in the simulation worker; the map draws the cars game-store.ts relays.
  */
 
-import { getRoute } from "./route-service"
+import type { Vehicle } from "./game-types"
+import { TRAFFIC_BY_HOUR, hourlyCurve } from "./game-types"
+import { crossesClosure, getRoute } from "./route-service"
+import { advanceSignals, learnJunctions, resetSignals, signalAspect, signalAt } from "./traffic-signals"
+import type { Rng } from "./rng"
+import { createRng, randomSeed } from "./rng"
+import { SpatialGrid } from "./spatial-grid"
 
 export interface TrafficCar {
   id: number
@@ -25,13 +39,14 @@ export interface TrafficCar {
   heading: number        // current heading in radians
   color: string
   radius: number         // render radius in px (tiny)
-  stoppedTicks: number   // ticks remaining stopped
   active: boolean
   routePending: boolean  // true while OSRM fetch is in flight
+  yieldOffset: number    // 0 = in lane, 1 = pulled over to the side for a unit
+  queued: boolean        // held up by the car ahead on its last tick
 }
 
 // Realistic car colors (muted, realistic palette)
-const CAR_COLORS = [
+export const CAR_COLORS = [
   "#c8ccd0", // silver
   "#1a1a1a", // black
   "#e8e8e8", // white
@@ -46,33 +61,65 @@ const CAR_COLORS = [
   "#f5f0e8", // cream
 ]
 
-const TARGET_CARS = 28
-const INTERSECTION_STOP_TICKS_MIN = 10    // ~1s minimum stop
-const INTERSECTION_STOP_TICKS_MAX = 30    // ~3s max stop
+const INITIAL_CARS = 28                   // first batch, before the view and city are known
+const CARS_PER_KM2 = 12                   // at an average hour, in a city of REFERENCE_POPULATION
+const REFERENCE_POPULATION = 700_000
+const MAX_CARS = 400
+const GRID_CELL_DEG = 0.001               // ~100m spatial grid cells
+const DENSITY_RADIUS = 0.002              // ~200m around a unit counts as its traffic
 const FOLLOWING_DISTANCE = 0.00007        // ~8m safe distance (reduced from 13m)
 const ROUTE_FETCH_CONCURRENCY = 3         // max parallel OSRM requests
+const YIELD_DISTANCE = 0.0015             // ~150m: cars this far ahead of a unit make way
+const YIELD_STEP = 0.2                    // lane offset per tick while pulling over / back in
+const NARROW_SEGMENT = 0.0005             // shorter segments than this are side streets
+const STOP_LINE = 0.15                    // route points short of a signal where cars wait on red
 
 // Viewport bounds
 let viewBounds = { north: 0, south: 0, east: 0, west: 0 }
 let isActive = false
+let targetCars = INITIAL_CARS
+
+// Traffic has its own RNG stream so NPC cars never shift the game's mission sequence
+let rng: Rng = createRng(randomSeed())
 
 // Car pool
 const cars: TrafficCar[] = []
 let nextCarId = 0
 let pendingRouteFetches = 0
 
+// Routed cars by position, rebuilt at the start of every tick
+const carGrid = new SpatialGrid<TrafficCar>(GRID_CELL_DEG)
+
+function rebuildCarGrid() {
+  carGrid.clear()
+  for (const car of cars) {
+    if (car.active && !car.routePending) carGrid.insert(car, car.lat, car.lng)
+  }
+}
+
+// Cars for the current view: its area at the city's density, which grows
+// more slowly than the population (big cities spread out, too)
+function carsForView(population: number): number {
+  const midLat = (viewBounds.north + viewBounds.south) / 2
+  const km2 =
+    (viewBounds.north - viewBounds.south) * 111.32 *
+    (viewBounds.east - viewBounds.west) * 111.32 * Math.cos((midLat * Math.PI) / 180)
+  const cityFactor = Math.min(3, Math.max(0.5, Math.sqrt(population / REFERENCE_POPULATION)))
+  return km2 * CARS_PER_KM2 * cityFactor
+}
+
 // Generate a random start point at the edge of the viewport (or slightly outside)
 function randomEdgePoint(): { lat: number; lng: number } {
   const margin = 0.003
-  const edge = Math.floor(Math.random() * 4)
+  const edge = Math.floor(rng.next() * 4)
   const latSpan = viewBounds.north - viewBounds.south
   const lngSpan = viewBounds.east - viewBounds.west
 
   switch (edge) {
-    case 0: return { lat: viewBounds.north + margin, lng: viewBounds.west + Math.random() * lngSpan }
-    case 1: return { lat: viewBounds.south + Math.random() * latSpan, lng: viewBounds.east + margin }
-    case 2: return { lat: viewBounds.south - margin, lng: viewBounds.west + Math.random() * lngSpan }
-    default: return { lat: viewBounds.south + Math.random() * latSpan, lng: viewBounds.west - margin }
+    case 0: return { lat: viewBounds.north + margin, lng: viewBounds.west + rng.next() * lngSpan }
+    case 1: return { lat: viewBounds.south + rng.next() * latSpan, lng: viewBounds.east + margin }
+    case 2: return { lat: viewBounds.south - margin, lng: viewBounds.west + rng.next() * lngSpan }
+    default: return { lat: viewBounds.south + rng.next() * latSpan, lng: viewBounds.west - margin }
   }
 }
 
@@ -85,12 +132,12 @@ function randomDestination(from: { lat: number; lng: number }): { lat: number; l
   const lngSpan = viewBounds.east - viewBounds.west
 
   // Offset from center, biased away from the starting point
-  const dLat = from.lat > latCenter ? -0.3 - Math.random() * 0.5 : 0.3 + Math.random() * 0.5
-  const dLng = from.lng > lngCenter ? -0.3 - Math.random() * 0.5 : 0.3 + Math.random() * 0.5
+  const dLat = from.lat > latCenter ? -0.3 - rng.next() * 0.5 : 0.3 + rng.next() * 0.5
+  const dLng = from.lng > lngCenter ? -0.3 - rng.next() * 0.5 : 0.3 + rng.next() * 0.5
 
   return {
-    lat: latCenter + dLat * latSpan * 0.5 + (Math.random() - 0.5) * latSpan * 0.3,
-    lng: lngCenter + dLng * lngSpan * 0.5 + (Math.random() - 0.5) * lngSpan * 0.3,
+    lat: latCenter + dLat * latSpan * 0.5 + (rng.next() - 0.5) * latSpan * 0.3,
+    lng: lngCenter + dLng * lngSpan * 0.5 + (rng.next() - 0.5) * lngSpan * 0.3,
   }
 }
 
@@ -103,13 +150,14 @@ function createCar(): TrafficCar {
     lng: start.lng,
     routeCoords: [],
     routeIndex: 0,
-    speed: 0.4 + Math.random() * 0.3, // route-points per tick (slow NPC speed)
+    speed: 0.4 + rng.next() * 0.3, // route-points per tick (slow NPC speed)
     heading: 0,
-    color: CAR_COLORS[Math.floor(Math.random() * CAR_COLORS.length)],
+    color: CAR_COLORS[Math.floor(rng.next() * CAR_COLORS.length)],
     radius: 2, // tiny dots
-    stoppedTicks: 0,
     active: true,
     routePending: true,
+    yieldOffset: 0,
+    queued: false,
   }
 }
 
@@ -117,10 +165,11 @@ function createCar(): TrafficCar {
 async function assignRoute(car: TrafficCar) {
   pendingRouteFetches++
   const dest = randomDestination(car)
-  const route = await getRoute({ lat: car.lat, lng: car.lng }, dest)
+  const { coords: route } = await getRoute({ lat: car.lat, lng: car.lng }, dest)
   pendingRouteFetches--
 
   if (route.length >= 2) {
+    learnJunctions(route)
     car.routeCoords = route
     car.routeIndex = 0
     car.lat = route[0].lat
@@ -134,6 +183,20 @@ async function assignRoute(car: TrafficCar) {
   }
 }
 
+// Re-plan the rest of a car's trip; it keeps driving the old route until the new one is in
+async function detourCar(car: TrafficCar) {
+  const dest = car.routeCoords[car.routeCoords.length - 1]
+  pendingRouteFetches++
+  const { coords: route } = await getRoute({ lat: car.lat, lng: car.lng }, dest)
+  pendingRouteFetches--
+  if (!car.active || route.length < 2) return
+
+  learnJunctions(route)
+  car.routeCoords = route
+  car.routeIndex = 0
+  car.heading = Math.atan2(route[1].lng - route[0].lng, route[1].lat - route[0].lat)
+}
+
 // ----- Movement helpers -----
 
 // Check angle between consecutive route segments
@@ -157,29 +220,92 @@ function roadSpeedFactor(angleDiff: number, segLength: number): number {
   return 0.8                                      // residential
 }
 
+// Length of the route segment a car is on
+function currentSegmentLength(car: TrafficCar): number {
+  const idx = Math.floor(car.routeIndex)
+  const curr = car.routeCoords[idx]
+  const next = car.routeCoords[Math.min(idx + 1, car.routeCoords.length - 1)]
+  return Math.sqrt((next.lat - curr.lat) ** 2 + (next.lng - curr.lng) ** 2)
+}
+
+// A car on or just before a junction: pulling over there would block it
+function inJunction(car: TrafficCar): boolean {
+  const idx = Math.floor(car.routeIndex)
+  return getAngleChange(car.routeCoords, idx) > Math.PI / 4 || getAngleChange(car.routeCoords, idx + 1) > Math.PI / 4
+}
+
+// Heading of a unit along its route, or null before it has one
+function unitHeading(v: Vehicle): number | null {
+  const idx = Math.floor(v.routeIndex)
+  const next = v.routeCoords[idx + 1]
+  if (!next) return null
+  return Math.atan2(next.lng - v.position.lng, next.lat - v.position.lat)
+}
+
+// Route index of a signal at the car's next route point that it has to stop
+// for; amber only stops cars that can still stop before the line
+function signalStop(car: TrafficCar): number | null {
+  const next = Math.floor(car.routeIndex) + 1
+  if (next >= car.routeCoords.length - 1) return null
+  const signal = signalAt(car.routeCoords[next])
+  if (!signal) return null
+  const aspect = signalAspect(signal, getHeadingInto(car.routeCoords, next))
+  if (aspect === "green") return null
+  if (aspect === "amber" && next - car.routeIndex < 0.5) return null
+  return next
+}
+
+function getHeadingInto(coords: { lat: number; lng: number }[], idx: number): number {
+  return Math.atan2(coords[idx].lng - coords[idx - 1].lng, coords[idx].lat - coords[idx - 1].lat)
+}
+
+// Whether a unit with lights on is coming up on the car: close, and with the car in front of it
+function unitApproaching(car: TrafficCar, units: readonly Vehicle[]): boolean {
+  return units.some((v) => {
+    const dLat = car.lat - v.position.lat
+    const dLng = car.lng - v.position.lng
+    if (Math.abs(dLat) > YIELD_DISTANCE || Math.abs(dLng) > YIELD_DISTANCE) return false
+    if (Math.sqrt(dLat * dLat + dLng * dLng) > YIELD_DISTANCE) return false
+    const heading = unitHeading(v)
+    if (heading === null) return false
+    let diff = Math.abs(Math.atan2(dLng, dLat) - heading)
+    if (diff > Math.PI) diff = 2 * Math.PI - diff
+    return diff < Math.PI / 4
+  })
+}
+
 // Check if any other car is too close ahead
 function hasCarAhead(car: TrafficCar): boolean {
-  for (const other of cars) {
-    if (other.id === car.id || !other.active || other.routePending) continue
+  let ahead = false
+  carGrid.near(car.lat, car.lng, FOLLOWING_DISTANCE, (other) => {
+    if (other.id === car.id || !other.active) return
     const dLat = other.lat - car.lat
     const dLng = other.lng - car.lng
     const dist = Math.sqrt(dLat * dLat + dLng * dLng)
-    if (dist > FOLLOWING_DISTANCE) continue
+    if (dist > FOLLOWING_DISTANCE) return
+
+    // Two cars on the same spot (both pulled up to a stop line, say) would
+    // each wait for the other: the older one goes first
+    if (dist < 1e-9) {
+      ahead = other.id < car.id
+      return ahead
+    }
 
     // Check if the other car is roughly ahead of us (within +-90 deg of heading)
     const angleToOther = Math.atan2(dLng, dLat)
     let headingDiff = Math.abs(angleToOther - car.heading)
     if (headingDiff > Math.PI) headingDiff = 2 * Math.PI - headingDiff
-    if (headingDiff >= Math.PI / 2) continue
+    if (headingDiff >= Math.PI / 2) return
 
     // NY: må også kjøre omtrent samme retning, ellers lar vi dem passere
     let dirDiff = Math.abs(other.heading - car.heading)
     if (dirDiff > Math.PI) dirDiff = 2 * Math.PI - dirDiff
-    if (dirDiff > Math.PI / 3) continue // > 60° = regn som "ikke samme fil/retning"
+    if (dirDiff > Math.PI / 3) return // > 60° = regn som "ikke samme fil/retning"
 
+    ahead = true
     return true
-  }
-  return false
+  })
+  return ahead
 }
 
 // ----- Public API -----
@@ -188,18 +314,20 @@ export function updateViewBounds(bounds: { north: number; south: number; east: n
   viewBounds = bounds
 }
 
-export function startTraffic() {
+export function startTraffic(seed?: string) {
+  rng = createRng(`${seed ?? randomSeed()}:traffic`)
   isActive = true
+  resetSignals()
   cars.length = 0
   nextCarId = 0
   pendingRouteFetches = 0
 
   // Seed initial batch -- routes fetched async
-  for (let i = 0; i < TARGET_CARS; i++) {
+  for (let i = 0; i < INITIAL_CARS; i++) {
     const car = createCar()
     // Spread initial cars across the viewport (not just edges)
-    car.lat = viewBounds.south + Math.random() * (viewBounds.north - viewBounds.south)
-    car.lng = viewBounds.west + Math.random() * (viewBounds.east - viewBounds.west)
+    car.lat = viewBounds.south + rng.next() * (viewBounds.north - viewBounds.south)
+    car.lng = viewBounds.west + rng.next() * (viewBounds.east - viewBounds.west)
     cars.push(car)
   }
 
@@ -216,10 +344,46 @@ export function startTraffic() {
 export function stopTraffic() {
   isActive = false
   cars.length = 0
+  carGrid.clear()
 }
 
-export function tickTraffic() {
+export interface TrafficConditions {
+  /** All cars drive this much slower, e.g. for the weather */
+  speedFactor: number
+  /** Units driving with lights on, which cars make way for */
+  emergencyUnits: readonly Vehicle[]
+  /** Signals turn green for the emergency units (road authority upgrade) */
+  signalPreemption: boolean
+  /** The city's population, which sets how busy its streets are */
+  population: number
+}
+
+/**
+ * Advance all cars and signals. `hour` (0-24, city time) sets how many cars
+ * are on the road.
+ */
+export function tickTraffic(
+  hour: number,
+  { speedFactor, emergencyUnits, signalPreemption, population }: TrafficConditions = {
+    speedFactor: 1,
+    emergencyUnits: [],
+    signalPreemption: false,
+    population: REFERENCE_POPULATION,
+  },
+) {
   if (!isActive) return
+  // Surplus cars are not removed, they just aren't replaced when they arrive
+  targetCars = Math.min(MAX_CARS, Math.round(carsForView(population) * hourlyCurve(TRAFFIC_BY_HOUR, hour)))
+  rebuildCarGrid()
+
+  advanceSignals(
+    signalPreemption
+      ? emergencyUnits.flatMap((v) => {
+          const heading = unitHeading(v)
+          return heading === null ? [] : [{ lat: v.position.lat, lng: v.position.lng, heading }]
+        })
+      : [],
+  )
 
   for (const car of cars) {
     if (!car.active || car.routePending) continue
@@ -230,14 +394,19 @@ export function tickTraffic() {
       continue
     }
 
-    // Handle stopped (traffic light / intersection)
-    if (car.stoppedTicks > 0) {
-      car.stoppedTicks--
+    // A unit coming up behind: pull over and wait, or if in a junction
+    // drive on out of it (through a red light too) before pulling over
+    const yielding = unitApproaching(car, emergencyUnits)
+    if (yielding && !inJunction(car)) {
+      car.queued = hasCarAhead(car)
+      car.yieldOffset = Math.min(1, car.yieldOffset + YIELD_STEP)
       continue
     }
+    if (!yielding) car.yieldOffset = Math.max(0, car.yieldOffset - YIELD_STEP)
 
     // Check following distance
-    if (hasCarAhead(car)) {
+    car.queued = hasCarAhead(car)
+    if (car.queued) {
       continue // Don't move, wait for car ahead to clear
     }
 
@@ -249,19 +418,21 @@ export function tickTraffic() {
     const segLen = Math.sqrt((nextPt.lat - curr.lat) ** 2 + (nextPt.lng - curr.lng) ** 2)
     const roadFactor = roadSpeedFactor(angleDiff, segLen)
 
-    // Intersection stop: sharp turns have a chance to trigger a stop
-    if (angleDiff > Math.PI / 4 && car.stoppedTicks === 0 && Math.random() < 0.12) {
-      car.stoppedTicks = INTERSECTION_STOP_TICKS_MIN + Math.floor(Math.random() * (INTERSECTION_STOP_TICKS_MAX - INTERSECTION_STOP_TICKS_MIN))
-      continue
-    }
-
     // Braking near end of route
     const remaining = car.routeCoords.length - 1 - car.routeIndex
     const brakeFactor = remaining < 10 ? 0.3 + (remaining / 10) * 0.7 : 1.0
 
     // Move along route
-    const move = car.speed * roadFactor * brakeFactor * (0.97 + Math.random() * 0.06)
-    const newIndex = Math.min(car.routeIndex + move, car.routeCoords.length - 1)
+    const move = car.speed * roadFactor * brakeFactor * speedFactor * (0.97 + rng.next() * 0.06)
+    let newIndex = Math.min(car.routeIndex + move, car.routeCoords.length - 1)
+
+    // Red light ahead: drive up to the stop line and wait there, the head of the queue
+    const stopAt = yielding ? null : signalStop(car)
+    if (stopAt !== null && newIndex > stopAt - STOP_LINE) {
+      newIndex = Math.max(car.routeIndex, stopAt - STOP_LINE)
+      car.queued = true
+      if (newIndex === car.routeIndex) continue
+    }
 
     // Interpolate position
     const fi = Math.floor(newIndex)
@@ -284,37 +455,67 @@ export function tickTraffic() {
   }
 
   // Spawn replacements (throttled by pending fetches)
-  while (cars.length < TARGET_CARS && pendingRouteFetches < ROUTE_FETCH_CONCURRENCY) {
+  while (cars.length < targetCars && pendingRouteFetches < ROUTE_FETCH_CONCURRENCY) {
     const car = createCar()
     cars.push(car)
     assignRoute(car)
   }
 }
 
+/** Send cars whose way ahead has just been closed around the closure */
+export function rerouteTraffic() {
+  if (!isActive) return
+  for (const car of cars) {
+    if (!car.active || car.routePending || car.routeCoords.length < 2) continue
+    const ahead = [{ lat: car.lat, lng: car.lng }, ...car.routeCoords.slice(Math.ceil(car.routeIndex))]
+    if (crossesClosure(ahead)) void detourCar(car)
+  }
+}
+
 /** Get all active cars for rendering (routes are NOT exposed) */
 export function getCars(): ReadonlyArray<TrafficCar> {
   return cars.filter(c => c.active && !c.routePending && c.routeCoords.length >= 2)
 }
 
+/** Numbers per car in packCars(): lat, lng, heading, yieldOffset, index into CAR_COLORS */
+export const PACKED_CAR_FIELDS = 5
+
+/** getCars() flattened into one array, to hand the cars to another thread cheaply */
+export function packCars(): Float64Array {
+  const visible = getCars()
+  const packed = new Float64Array(visible.length * PACKED_CAR_FIELDS)
+  visible.forEach((car, i) => {
+    packed.set([car.lat, car.lng, car.heading, car.yieldOffset, CAR_COLORS.indexOf(car.color)], i * PACKED_CAR_FIELDS)
+  })
+  return packed
+}
+
+// How much a car is in an emergency unit's way: hardly at all once it has
+// pulled over, half on a side street with no room to pull fully aside, and
+// fully when it is stuck in a queue (behind a car or at a red light) with
+// nowhere to go
+function obstruction(car: TrafficCar): number {
+  if (car.queued) return 1
+  const room = currentSegmentLength(car) < NARROW_SEGMENT ? 0.5 : 0.9
+  return 1 - car.yieldOffset * room
+}
+
 /**
  * Traffic density at a position (0.0 to 1.0).
- * Counts nearby routed NPC cars within ~200m radius.
+ * Counts nearby routed NPC cars within ~200m radius, each by how much it is
+ * in the way (see obstruction), so traffic that can make way slows units less.
  * Used by game-store to slow emergency vehicles.
  */
 export function getTrafficDensity(lat: number, lng: number): number {
   if (!isActive) return 0
 
-  const radius = 0.002 // ~200m
   let count = 0
-
-  for (const car of cars) {
-    if (!car.active || car.routePending) continue
+  carGrid.near(lat, lng, DENSITY_RADIUS, (car) => {
+    if (!car.active) return
     const dLat = car.lat - lat
     const dLng = car.lng - lng
-    if (Math.abs(dLat) > radius || Math.abs(dLng) > radius) continue
-    const dist = Math.sqrt(dLat * dLat + dLng * dLng)
-    if (dist < radius) count++
-  }
+    if (Math.sqrt(dLat * dLat + dLng * dLng) < DENSITY_RADIUS) count += obstruction(car)
+  })
 
   // 0 cars = 0.0, 8+ cars nearby = 1.0
   return Math.min(1.0, count / 8)
@@ -0,0 +1,174 @@
+/**
+ * Traffic Signals
+ * Signalised intersections for the NPC traffic. There is no signal data in the
+ * road network, so junctions are learned from the cars' own routes: where two
+ * routes pass straight through the same spot on crossing axes, there is a
+ * crossroads, and it gets a signal.
+ *
+ * Each signal gives its two axes green in turn (with amber in between), each
+ * crossroads a little out of step with the next. With pre-emption, a signal
+ * that a unit with lights on is heading for turns green along the unit's
+ * axis and red for the cross traffic until the unit is through.
+ *
+ * Like the traffic itself this is standalone and wall-clock driven: one
+ * advanceSignals() per traffic tick.
+ */
+
+import { hashSeed } from "./rng"
+import { SpatialGrid } from "./spatial-grid"
+
+export interface TrafficSignal {
+  lat: number
+  lng: number
+  axis: number          // heading (radians, 0-PI) of the approach that is green first
+  offset: number        // ticks this signal runs ahead of the others
+  preemptAxis?: number  // set while a unit has pre-empted the signal
+  preemptUntil: number  // tick the pre-emption runs out
+}
+
+export type SignalAspect = "green" | "amber" | "red"
+
+const GREEN_TICKS = 80                        // ~8s green per axis
+const AMBER_TICKS = 20                        // ~2s amber
+const CYCLE_TICKS = 2 * (GREEN_TICKS + AMBER_TICKS)
+const CELL_DEG = 0.0003                       // ~30m: one junction per cell
+const SNAP_DEG = 0.00015                      // ~15m: route points this close are at the signal
+const PREEMPT_DISTANCE = 0.002                // ~200m ahead of a unit
+const PREEMPT_TICKS = 30                      // held green for ~3s after the unit was last seen coming
+const MAX_CANDIDATES = 5000                   // straight-through spots remembered while waiting for a crossing
+const MAX_SIGNALS = 2000                      // signals kept; the ones no route has passed in longest go first
+
+// A spot one route has passed straight through; a crossing route makes it a signal
+interface JunctionCandidate {
+  lat: number
+  lng: number
+  axis: number   // axis of the first route seen passing through
+}
+
+let clock = 0
+// Signals by junction cell, for the route points cars drive through; least
+// recently passed first (Map order)
+const signals = new Map<string, TrafficSignal>()
+// The same signals by area, for the units that pre-empt them
+const signalGrid = new SpatialGrid<TrafficSignal>(PREEMPT_DISTANCE)
+// Oldest first (Map order), so the least recently seen spot goes when full
+const candidates = new Map<string, JunctionCandidate>()
+
+function cellKey(lat: number, lng: number) {
+  return `${Math.floor(lat / CELL_DEG)},${Math.floor(lng / CELL_DEG)}`
+}
+
+// A heading folded onto 0-PI: both directions along a road share an axis
+function toAxis(heading: number): number {
+  const a = heading % Math.PI
+  return a < 0 ? a + Math.PI : a
+}
+
+function axisDiff(a: number, b: number): number {
+  const d = Math.abs(toAxis(a) - toAxis(b))
+  return Math.min(d, Math.PI - d)
+}
+
+function segmentHeading(from: { lat: number; lng: number }, to: { lat: number; lng: number }) {
+  return Math.atan2(to.lng - from.lng, to.lat - from.lat)
+}
+
+export function resetSignals() {
+  clock = 0
+  signals.clear()
+  signalGrid.clear()
+  candidates.clear()
+}
+
+/** Note the junctions a route passes straight through; crossings become signals */
+export function learnJunctions(coords: { lat: number; lng: number }[]) {
+  for (let i = 1; i < coords.length - 1; i++) {
+    const inbound = segmentHeading(coords[i - 1], coords[i])
+    const outbound = segmentHeading(coords[i], coords[i + 1])
+    if (axisDiff(inbound, outbound) > Math.PI / 8) continue
+
+    const key = cellKey(coords[i].lat, coords[i].lng)
+    const known = signals.get(key)
+    if (known) {
+      // Passed again: keep it as recently seen
+      signals.delete(key)
+      signals.set(key, known)
+      continue
+    }
+    const candidate = candidates.get(key)
+    if (!candidate) {
+      if (candidates.size >= MAX_CANDIDATES) candidates.delete(candidates.keys().next().value!)
+      candidates.set(key, { lat: coords[i].lat, lng: coords[i].lng, axis: toAxis(inbound) })
+    } else if (axisDiff(candidate.axis, inbound) > Math.PI / 3) {
+      const signal: TrafficSignal = {
+        lat: candidate.lat,
+        lng: candidate.lng,
+        axis: candidate.axis,
+        offset: hashSeed(key) % CYCLE_TICKS,
+        preemptUntil: 0,
+      }
+      candidates.delete(key)
+      if (signals.size >= MAX_SIGNALS) {
+        const [oldestKey, oldest] = signals.entries().next().value!
+        signals.delete(oldestKey)
+        signalGrid.remove(oldest, oldest.lat, oldest.lng)
+      }
+      signals.set(key, signal)
+      signalGrid.insert(signal, signal.lat, signal.lng)
+    } else {
+      // Seen again along the same axis: keep it as recently seen
+      candidates.delete(key)
+      candidates.set(key, candidate)
+    }
+  }
+}
+
+/** The signal at a route point, if there is one */
+export function signalAt(pos: { lat: number; lng: number }): TrafficSignal | null {
+  const row = Math.floor(pos.lat / CELL_DEG)
+  const col = Math.floor(pos.lng / CELL_DEG)
+  for (let r = row - 1; r <= row + 1; r++) {
+    for (let c = col - 1; c <= col + 1; c++) {
+      const signal = signals.get(`${r},${c}`)
+      if (signal && Math.abs(signal.lat - pos.lat) < SNAP_DEG && Math.abs(signal.lng - pos.lng) < SNAP_DEG) {
+        return signal
+      }
+    }
+  }
+  return null
+}
+
+/** What a signal shows traffic arriving with `heading` */
+export function signalAspect(signal: TrafficSignal, heading: number): SignalAspect {
+  if (signal.preemptAxis !== undefined && signal.preemptUntil > clock) {
+    return axisDiff(heading, signal.preemptAxis) < Math.PI / 4 ? "green" : "red"
+  }
+
+  // Main axis: green, amber, then red while the cross axis has its turn
+  const mainAxis = axisDiff(heading, signal.axis) < Math.PI / 4
+  const t = (clock + signal.offset) % CYCLE_TICKS
+  const own = mainAxis ? t : (t + GREEN_TICKS + AMBER_TICKS) % CYCLE_TICKS
+  if (own < GREEN_TICKS) return "green"
+  if (own < GREEN_TICKS + AMBER_TICKS) return "amber"
+  return "red"
+}
+
+/**
+ * Advance every signal one tick. `preempting` are units with lights on whose
+ * signals ahead turn green for them; empty without the pre-emption upgrade.
+ */
+export function advanceSignals(preempting: readonly { lat: number; lng: number; heading: number }[]) {
+  clock++
+  for (const unit of preempting) {
+    signalGrid.near(unit.lat, unit.lng, PREEMPT_DISTANCE, (signal) => {
+      const dLat = signal.lat - unit.lat
+      const dLng = signal.lng - unit.lng
+      if (Math.abs(dLat) > PREEMPT_DISTANCE || Math.abs(dLng) > PREEMPT_DISTANCE) return
+      let diff = Math.abs(Math.atan2(dLng, dLat) - unit.heading)
+      if (diff > Math.PI) diff = 2 * Math.PI - diff
+      if (diff > Math.PI / 4) return
+      signal.preemptAxis = toAxis(unit.heading)
+      signal.preemptUntil = clock + PREEMPT_TICKS
+    })
+  }
+}
@@ -0,0 +1,98 @@
+// Bakes a city's drivable road network from OpenStreetMap (Overpass API) into
+// public/road-graphs/<cityId>.json for the offline router (lib/road-graph.ts).
+//
+// Usage: node scripts/bake-road-graph.mjs <cityId> <south> <west> <north> <east>
+// e.g.   node scripts/bake-road-graph.mjs oslo 59.895 10.710 59.935 10.795
+//
+// Use the city's `bounds` from CITY_OPTIONS in lib/game-types.ts, widened a bit
+// so routes near the edge still find a way around.
+
+import { mkdir, writeFile } from "node:fs/promises"
+
+const OVERPASS_URL = "https://overpass-api.de/api/interpreter"
+const GRAPH_VERSION = 1
+
+// Default speed (km/h) per highway class when a way has no usable maxspeed tag
+const DEFAULT_SPEEDS = {
+  motorway: 90,
+  motorway_link: 60,
+  trunk: 70,
+  trunk_link: 50,
+  primary: 50,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 40,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 30,
+  living_street: 10,
+  service: 20,
+}
+
+const [cityId, ...bbox] = process.argv.slice(2)
+if (!cityId || bbox.length !== 4 || bbox.some((n) => Number.isNaN(Number(n)))) {
+  console.error("Usage: node scripts/bake-road-graph.mjs <cityId> <south> <west> <north> <east>")
+  process.exit(1)
+}
+
+const highwayFilter = Object.keys(DEFAULT_SPEEDS).join("|")
+const query = `
+[out:json][timeout:180];
+way["highway"~"^(${highwayFilter})$"]["access"!~"^(no|private)$"](${bbox.join(",")});
+(._;>;);
+out body;
+`
+
+function parseSpeed(tag, highway) {
+  const kmh = parseInt(tag ?? "", 10)
+  if (Number.isFinite(kmh) && kmh > 0) return tag.includes("mph") ? Math.round(kmh * 1.609) : kmh
+  return DEFAULT_SPEEDS[highway] ?? 30
+}
+
+console.log(`Fetching roads for ${cityId}...`)
+const res = await fetch(OVERPASS_URL, { method: "POST", body: new URLSearchParams({ data: query }) })
+if (!res.ok) {
+  console.error(`Overpass request failed: HTTP ${res.status}`)
+  process.exit(1)
+}
+const { elements } = await res.json()
+
+const osmNodes = new Map()
+for (const el of elements) {
+  if (el.type === "node") osmNodes.set(el.id, [el.lat, el.lon])
+}
+
+// Only keep nodes that are part of a road, renumbered densely
+const index = new Map()
+const nodes = []
+function nodeIndex(osmId) {
+  let i = index.get(osmId)
+  if (i === undefined) {
+    const [lat, lng] = osmNodes.get(osmId)
+    i = nodes.length / 2
+    nodes.push(Number(lat.toFixed(6)), Number(lng.toFixed(6)))
+    index.set(osmId, i)
+  }
+  return i
+}
+
+const edges = []
+for (const el of elements) {
+  if (el.type !== "way") continue
+  const tags = el.tags ?? {}
+  const speed = parseSpeed(tags.maxspeed, tags.highway)
+  const reversed = tags.oneway === "-1"
+  const oneway =
+    reversed || ["yes", "true", "1"].includes(tags.oneway) || tags.junction === "roundabout" || tags.highway === "motorway"
+  const ids = el.nodes.filter((id) => osmNodes.has(id))
+  if (reversed) ids.reverse()
+  for (let i = 0; i < ids.length - 1; i++) {
+    edges.push(nodeIndex(ids[i]), nodeIndex(ids[i + 1]), speed, oneway ? 1 : 0)
+  }
+}
+
+await mkdir("public/road-graphs", { recursive: true })
+const out = `public/road-graphs/${cityId}.json`
+await writeFile(out, JSON.stringify({ version: GRAPH_VERSION, cityId, nodes, edges }))
+console.log(`Wrote ${out}: ${nodes.length / 2} nodes, ${edges.length / 4} edges`)
@@ -0,0 +1,99 @@
+// Measures what one NPC traffic tick costs as the number of cars grows: the
+// car moves with their following-distance checks, plus the density lookups the
+// simulation makes for units on the move (lib/traffic-manager.ts).
+//
+// Usage: npm run bench:traffic
+//
+// Exits non-zero when a tick at any car count misses FRAME_BUDGET_MS.
+//
+// Cars drive a synthetic street grid instead of fetched routes, so the numbers
+// are the traffic code alone. More cars come from a bigger view of a bigger
+// city, the way the game scales traffic, up to MAX_CARS.
+
+import { setRouteProvider } from "../lib/route-service"
+import { getCars, getTrafficDensity, startTraffic, stopTraffic, tickTraffic, updateViewBounds } from "../lib/traffic-manager"
+
+const CENTER = { lat: 59.91, lng: 10.75 }
+const BLOCK_DEG = 0.002 // ~200m blocks
+const POINT_DEG = 0.0002 // route points every ~20m
+const POPULATION = 3_700_000
+const RUSH_HOUR = 8
+const VIEW_KM2 = [1, 2.5, 5, 10, 15]
+const UNITS = 10 // density lookups per tick, one per moving unit
+const TICKS = 300
+// A traffic tick shares the worker with the simulation step, so it gets a
+// quarter of a 60 fps frame
+const FRAME_BUDGET_MS = 16.7 / 4
+
+// Along the avenue to the destination's street, then along the street
+setRouteProvider({
+  id: "bench-grid",
+  route: async (from, to) => {
+    const snap = (deg: number) => Math.round(deg / BLOCK_DEG) * BLOCK_DEG
+    let p = { lat: snap(from.lat), lng: snap(from.lng) }
+    const end = { lat: snap(to.lat), lng: snap(to.lng) }
+    const coords = [p]
+    while (Math.abs(p.lat - end.lat) > POINT_DEG / 2) {
+      p = { lat: p.lat + Math.sign(end.lat - p.lat) * POINT_DEG, lng: p.lng }
+      coords.push(p)
+    }
+    while (Math.abs(p.lng - end.lng) > POINT_DEG / 2) {
+      p = { lat: p.lat, lng: p.lng + Math.sign(end.lng - p.lng) * POINT_DEG }
+      coords.push(p)
+    }
+    if (coords.length < 2) throw new Error("Same block")
+    const distance = (coords.length - 1) * 22
+    return { coords, speeds: coords.slice(1).map(() => 11), distance, duration: distance / 11 }
+  },
+})
+
+// Lets the route fetches for new cars resolve between ticks
+const settle = () => new Promise((resolve) => setImmediate(resolve))
+
+const conditions = { speedFactor: 1, emergencyUnits: [], signalPreemption: false, population: POPULATION }
+
+// Average ms per tick at the view size
+async function bench(km2: number): Promise<number> {
+  const sideKm = Math.sqrt(km2)
+  const halfLat = sideKm / 111.32 / 2
+  const halfLng = sideKm / (111.32 * Math.cos((CENTER.lat * Math.PI) / 180)) / 2
+  const bounds = { north: CENTER.lat + halfLat, south: CENTER.lat - halfLat, east: CENTER.lng + halfLng, west: CENTER.lng - halfLng }
+  updateViewBounds(bounds)
+  startTraffic("bench")
+
+  // Fill the view before timing anything
+  for (let i = 0; i < 600; i++) {
+    tickTraffic(RUSH_HOUR, conditions)
+    await settle()
+  }
+
+  let ms = 0
+  let cars = 0
+  for (let i = 0; i < TICKS; i++) {
+    const start = performance.now()
+    tickTraffic(RUSH_HOUR, conditions)
+    for (let u = 0; u < UNITS; u++) {
+      getTrafficDensity(
+        bounds.south + ((u + 0.5) / UNITS) * (bounds.north - bounds.south),
+        bounds.west + ((u + 0.5) / UNITS) * (bounds.east - bounds.west),
+      )
+    }
+    ms += performance.now() - start
+    cars += getCars().length
+    await settle()
+  }
+  stopTraffic()
+  console.log(`${String(km2).padStart(5)} km²  ${String(Math.round(cars / TICKS)).padStart(4)} cars  ${(ms / TICKS).toFixed(3)} ms/tick`)
+  return ms / TICKS
+}
+
+async function main() {
+  let worst = 0
+  for (const km2 of VIEW_KM2) worst = Math.max(worst, await bench(km2))
+  if (worst > FRAME_BUDGET_MS) {
+    console.error(`Slowest tick ${worst.toFixed(3)} ms is over the ${FRAME_BUDGET_MS.toFixed(2)} ms frame budget`)
+    process.exitCode = 1
+  }
+}
+
+void main()